@@ -0,0 +1,232 @@
+import { prisma } from "./db.server";
+
+/**
+ * Collection Membership Index
+ *
+ * Keeps a local copy of which products belong to which collections so
+ * COLLECTION triggers can be matched with a single database lookup instead
+ * of Admin API calls on every storefront request.
+ *
+ * Kept current by the products/update, collections/update and
+ * collections/delete webhooks, plus a periodic reconcile job.
+ */
+
+/**
+ * Minimal Admin GraphQL client (matches `admin` from authenticate.admin,
+ * authenticate.webhook and unauthenticated.admin)
+ */
+export interface AdminGraphqlClient {
+  graphql: (
+    query: string,
+    options?: { variables?: Record<string, unknown> }
+  ) => Promise<Response>;
+}
+
+const PAGE_SIZE = 250;
+
+/**
+ * Build a Shopify product GID from a numeric ID
+ */
+export function toProductGid(id: string | number): string {
+  return `gid://shopify/Product/${id}`;
+}
+
+/**
+ * Build a Shopify collection GID from a numeric ID
+ */
+export function toCollectionGid(id: string | number): string {
+  return `gid://shopify/Collection/${id}`;
+}
+
+/**
+ * Look up collection membership for cart products
+ *
+ * @param productIds - Numeric product IDs
+ * @returns Map of numeric product ID to collection GIDs
+ */
+export async function getCollectionMembership(
+  shopId: string,
+  productIds: string[]
+): Promise<Map<string, string[]>> {
+  const membership = new Map<string, string[]>(
+    productIds.map((id) => [id, []])
+  );
+
+  if (productIds.length === 0) return membership;
+
+  const rows = await prisma.productCollection.findMany({
+    where: {
+      shopId,
+      productId: { in: productIds.map(toProductGid) },
+    },
+    select: { productId: true, collectionId: true },
+  });
+
+  for (const row of rows) {
+    const numericId = row.productId.split("/").pop() || "";
+    membership.get(numericId)?.push(row.collectionId);
+  }
+
+  return membership;
+}
+
+/**
+ * Replace the indexed collections for a single product
+ */
+export async function indexProductCollections(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  productGid: string
+) {
+  const response = await admin.graphql(
+    `#graphql
+      query getProductCollections($id: ID!) {
+        product(id: $id) {
+          collections(first: ${PAGE_SIZE}) {
+            nodes {
+              id
+            }
+          }
+        }
+      }
+    `,
+    { variables: { id: productGid } }
+  );
+
+  const data = await response.json();
+  const product = data.data?.product;
+  const collectionIds: string[] = product
+    ? product.collections.nodes.map((node: { id: string }) => node.id)
+    : [];
+
+  await prisma.$transaction([
+    prisma.productCollection.deleteMany({
+      where: { shopId, productId: productGid },
+    }),
+    prisma.productCollection.createMany({
+      data: collectionIds.map((collectionId) => ({
+        shopId,
+        productId: productGid,
+        collectionId,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return collectionIds.length;
+}
+
+/**
+ * Replace the indexed products for a single collection
+ */
+export async function indexCollectionProducts(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  collectionGid: string
+) {
+  const productIds: string[] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(
+      `#graphql
+        query getCollectionProducts($id: ID!, $after: String) {
+          collection(id: $id) {
+            products(first: ${PAGE_SIZE}, after: $after) {
+              nodes {
+                id
+              }
+              pageInfo {
+                hasNextPage
+                endCursor
+              }
+            }
+          }
+        }
+      `,
+      { variables: { id: collectionGid, after: cursor } }
+    );
+
+    const data = await response.json();
+    const products = data.data?.collection?.products;
+
+    if (!products) break;
+
+    productIds.push(...products.nodes.map((node: { id: string }) => node.id));
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+  }
+
+  await prisma.$transaction([
+    prisma.productCollection.deleteMany({
+      where: { shopId, collectionId: collectionGid },
+    }),
+    prisma.productCollection.createMany({
+      data: productIds.map((productId) => ({
+        shopId,
+        productId,
+        collectionId: collectionGid,
+      })),
+      skipDuplicates: true,
+    }),
+  ]);
+
+  return productIds.length;
+}
+
+/**
+ * Drop a deleted collection from the index
+ */
+export async function removeCollectionFromIndex(
+  shopId: string,
+  collectionGid: string
+) {
+  await prisma.productCollection.deleteMany({
+    where: { shopId, collectionId: collectionGid },
+  });
+}
+
+/**
+ * Re-sync every collection referenced by the shop's rule conditions and
+ * exclusions
+ *
+ * Catches anything the webhooks missed (delivery failures, app downtime).
+ */
+export async function reconcileCollectionIndex(
+  admin: AdminGraphqlClient,
+  shopId: string
+) {
+  const conditions = await prisma.condition.findMany({
+    where: {
+      type: "COLLECTION",
+      collectionId: { not: null },
+      group: { rule: { shopId } },
+    },
+    select: { collectionId: true },
+  });
+
+  const rules = await prisma.rule.findMany({
+    where: { shopId },
+    select: { excludedCollectionIds: true },
+  });
+
+  const collectionIds = [
+    ...new Set([
+      ...conditions.map((condition) => condition.collectionId as string),
+      ...rules.flatMap((rule) => rule.excludedCollectionIds),
+    ]),
+  ];
+
+  let memberships = 0;
+  for (const collectionId of collectionIds) {
+    memberships += await indexCollectionProducts(admin, shopId, collectionId);
+  }
+
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: { collectionIndexSyncedAt: new Date() },
+  });
+
+  return { collections: collectionIds.length, memberships };
+}
@@ -0,0 +1,39 @@
+import { useState } from "react";
+import { AUDIENCES, type AudienceKey, type RuleAudienceInput } from "../rules";
+
+/**
+ * Audience Editor
+ *
+ * Chooses who sees a rule's offers. Customer tags are only shown (and
+ * submitted) for logged-in customers.
+ */
+export function AudienceEditor({ defaultValue }: { defaultValue: RuleAudienceInput }) {
+  const [audience, setAudience] = useState<AudienceKey>(defaultValue.audience);
+
+  return (
+    <s-stack direction="block" gap="base">
+      <s-select
+        name="audience"
+        label="Show to"
+        value={audience}
+        onChange={(e) => setAudience(e.currentTarget.value as AudienceKey)}
+      >
+        {(Object.keys(AUDIENCES) as AudienceKey[]).map((key) => (
+          <option key={key} value={key}>
+            {AUDIENCES[key].label}
+          </option>
+        ))}
+      </s-select>
+
+      {audience === "CUSTOMERS" && (
+        <s-text-field
+          name="audienceCustomerTags"
+          label="Customer tags"
+          placeholder="e.g., VIP, wholesale"
+          defaultValue={defaultValue.customerTags.join(", ")}
+          details="Comma-separated. Leave empty for all logged-in customers."
+        />
+      )}
+    </s-stack>
+  );
+}
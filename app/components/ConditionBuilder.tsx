@@ -0,0 +1,332 @@
+import { useState } from "react";
+import {
+  CollectionPickerButton,
+  ProductPickerButton,
+  VariantPickerButton,
+} from "./ResourcePickers";
+import {
+  CONDITION_OPERATORS,
+  TRIGGER_TYPES,
+  emptyCondition,
+  isAttributeTrigger,
+  supportsMinQuantity,
+  type AttributeTriggerType,
+  type ConditionGroupInput,
+  type ConditionInput,
+  type ConditionOperatorKey,
+  type RuleConditionsInput,
+  type TriggerTypeKey,
+} from "../rules";
+
+/**
+ * Condition Builder
+ *
+ * Edits a rule's AND/OR condition groups. The whole tree is submitted as
+ * JSON in the hidden "conditions" field and parsed by conditions.server.
+ */
+export function ConditionBuilder({
+  defaultValue,
+  triggerValueOptions,
+  currencyCode,
+  error,
+}: {
+  defaultValue: RuleConditionsInput;
+  triggerValueOptions: Record<AttributeTriggerType, string[]>;
+  currencyCode: string;
+  error?: string;
+}) {
+  const [conditions, setConditions] = useState<RuleConditionsInput>(defaultValue);
+
+  const updateGroup = (
+    groupIndex: number,
+    update: (group: ConditionGroupInput) => ConditionGroupInput
+  ) => {
+    setConditions((current) => ({
+      ...current,
+      groups: current.groups.map((group, index) =>
+        index === groupIndex ? update(group) : group
+      ),
+    }));
+  };
+
+  const updateCondition = (
+    groupIndex: number,
+    conditionIndex: number,
+    patch: Partial<ConditionInput>
+  ) => {
+    updateGroup(groupIndex, (group) => ({
+      ...group,
+      conditions: group.conditions.map((condition, index) =>
+        index === conditionIndex ? { ...condition, ...patch } : condition
+      ),
+    }));
+  };
+
+  const addGroup = () => {
+    setConditions((current) => ({
+      ...current,
+      groups: [...current.groups, { operator: "AND", conditions: [emptyCondition()] }],
+    }));
+  };
+
+  const removeGroup = (groupIndex: number) => {
+    setConditions((current) => ({
+      ...current,
+      groups: current.groups.filter((_, index) => index !== groupIndex),
+    }));
+  };
+
+  return (
+    <s-stack direction="block" gap="base">
+      <input type="hidden" name="conditions" value={JSON.stringify(conditions)} />
+
+      {conditions.groups.length > 1 && (
+        <OperatorSelect
+          label="Groups must match"
+          value={conditions.operator}
+          onChange={(operator) =>
+            setConditions((current) => ({ ...current, operator }))
+          }
+        />
+      )}
+
+      {conditions.groups.map((group, groupIndex) => (
+        <div
+          key={groupIndex}
+          style={{
+            padding: "0.75rem",
+            background: "#f9fafb",
+            borderRadius: "8px",
+            border: "1px solid #e5e7eb",
+          }}
+        >
+          <s-stack direction="block" gap="base">
+            <s-stack direction="inline" gap="base" alignItems="center">
+              <s-text>Group {groupIndex + 1}</s-text>
+              {group.conditions.length > 1 && (
+                <OperatorSelect
+                  label="Conditions must match"
+                  value={group.operator}
+                  onChange={(operator) =>
+                    updateGroup(groupIndex, (current) => ({ ...current, operator }))
+                  }
+                />
+              )}
+              {conditions.groups.length > 1 && (
+                <s-button variant="tertiary" onClick={() => removeGroup(groupIndex)}>
+                  Remove group
+                </s-button>
+              )}
+            </s-stack>
+
+            {group.conditions.map((condition, conditionIndex) => (
+              <ConditionRow
+                key={conditionIndex}
+                condition={condition}
+                triggerValueOptions={triggerValueOptions}
+                currencyCode={currencyCode}
+                onChange={(patch) => updateCondition(groupIndex, conditionIndex, patch)}
+                onRemove={
+                  group.conditions.length > 1
+                    ? () =>
+                        updateGroup(groupIndex, (current) => ({
+                          ...current,
+                          conditions: current.conditions.filter(
+                            (_, index) => index !== conditionIndex
+                          ),
+                        }))
+                    : undefined
+                }
+              />
+            ))}
+
+            <div>
+              <s-button
+                onClick={() =>
+                  updateGroup(groupIndex, (current) => ({
+                    ...current,
+                    conditions: [...current.conditions, emptyCondition()],
+                  }))
+                }
+              >
+                Add condition
+              </s-button>
+            </div>
+          </s-stack>
+        </div>
+      ))}
+
+      <div>
+        <s-button onClick={addGroup}>Add condition group</s-button>
+      </div>
+
+      {error && <s-text variant="error">{error}</s-text>}
+    </s-stack>
+  );
+}
+
+function OperatorSelect({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: ConditionOperatorKey;
+  onChange: (operator: ConditionOperatorKey) => void;
+}) {
+  return (
+    <s-select
+      label={label}
+      value={value}
+      onChange={(e) => onChange(e.currentTarget.value as ConditionOperatorKey)}
+    >
+      {(Object.keys(CONDITION_OPERATORS) as ConditionOperatorKey[]).map((operator) => (
+        <option key={operator} value={operator}>
+          {CONDITION_OPERATORS[operator].label}
+        </option>
+      ))}
+    </s-select>
+  );
+}
+
+function ConditionRow({
+  condition,
+  triggerValueOptions,
+  currencyCode,
+  onChange,
+  onRemove,
+}: {
+  condition: ConditionInput;
+  triggerValueOptions: Record<AttributeTriggerType, string[]>;
+  currencyCode: string;
+  onChange: (patch: Partial<ConditionInput>) => void;
+  onRemove?: () => void;
+}) {
+  return (
+    <s-stack direction="block" gap="small-200">
+      <s-stack direction="inline" gap="base" alignItems="center">
+        <s-select
+          label="Cart contains"
+          value={condition.type}
+          onChange={(e) =>
+            // Reset values when switching type so stale IDs aren't submitted
+            onChange(emptyCondition(e.currentTarget.value as TriggerTypeKey))
+          }
+        >
+          {(Object.keys(TRIGGER_TYPES) as TriggerTypeKey[]).map((type) => (
+            <option key={type} value={type}>
+              {TRIGGER_TYPES[type].label}
+            </option>
+          ))}
+        </s-select>
+        <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+          <input
+            type="checkbox"
+            checked={condition.negate}
+            onChange={(e) => onChange({ negate: e.currentTarget.checked })}
+          />
+          <s-text>NOT</s-text>
+        </label>
+        {onRemove && (
+          <s-button variant="tertiary" onClick={onRemove}>
+            Remove
+          </s-button>
+        )}
+      </s-stack>
+
+      {condition.type === "PRODUCT" ? (
+        <ProductPickerButton
+          selectedId={condition.productId}
+          onSelect={(productId) => onChange({ productId })}
+          label={condition.productId ? "Change Product" : "Select Product"}
+        />
+      ) : condition.type === "VARIANT" ? (
+        <VariantPickerButton
+          selectedId={condition.variantId}
+          onSelect={(productId, variantId) => onChange({ productId, variantId })}
+          label={condition.variantId ? "Change Variant" : "Select Variant"}
+        />
+      ) : condition.type === "COLLECTION" ? (
+        <CollectionPickerButton
+          selectedId={condition.collectionId}
+          onSelect={(collectionId) => onChange({ collectionId })}
+          label={condition.collectionId ? "Change Collection" : "Select Collection"}
+        />
+      ) : condition.type === "CART_VALUE" ? (
+        <s-stack direction="inline" gap="base">
+          <s-money-field
+            label={`Minimum subtotal (${currencyCode})`}
+            min={0}
+            value={condition.minSubtotal}
+            onInput={(e) => onChange({ minSubtotal: e.currentTarget.value })}
+          />
+          <s-money-field
+            label={`Maximum subtotal (${currencyCode})`}
+            min={0}
+            value={condition.maxSubtotal}
+            onInput={(e) => onChange({ maxSubtotal: e.currentTarget.value })}
+          />
+        </s-stack>
+      ) : isAttributeTrigger(condition.type) ? (
+        <TriggerValuePicker
+          label={TRIGGER_TYPES[condition.type].label}
+          value={condition.value}
+          options={triggerValueOptions[condition.type]}
+          onChange={(value) => onChange({ value })}
+        />
+      ) : null}
+
+      {supportsMinQuantity(condition.type) && (
+        <s-number-field
+          label="Minimum quantity"
+          details="Total quantity of matching items in the cart. Leave empty for any."
+          min={1}
+          step={1}
+          value={condition.minQuantity}
+          onInput={(e) => onChange({ minQuantity: e.currentTarget.value })}
+        />
+      )}
+    </s-stack>
+  );
+}
+
+function TriggerValuePicker({
+  label,
+  value,
+  options,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  options: string[];
+  onChange: (value: string) => void;
+}) {
+  // Fall back to free text if the shop has no values yet or the lookup failed
+  if (options.length === 0) {
+    return (
+      <s-text-field
+        label={label}
+        value={value}
+        onInput={(e) => onChange(e.currentTarget.value)}
+      />
+    );
+  }
+
+  // Keep a saved value selectable even if it no longer exists in the shop
+  const choices = value && !options.includes(value) ? [value, ...options] : options;
+
+  return (
+    <s-select
+      label={label}
+      value={value}
+      onChange={(e) => onChange(e.currentTarget.value)}
+    >
+      <option value="">Select...</option>
+      {choices.map((choice) => (
+        <option key={choice} value={choice}>
+          {choice}
+        </option>
+      ))}
+    </s-select>
+  );
+}
@@ -0,0 +1,69 @@
+import { useState } from "react";
+import {
+  UPSELL_DISCOUNT_TYPES,
+  type RuleDiscountInput,
+  type UpsellDiscountTypeKey,
+} from "../rules";
+
+/**
+ * Discount Editor
+ *
+ * Sets the checkout discount for a rule's upsells. The value field is only
+ * shown (and submitted) once a discount type is picked.
+ */
+export function DiscountEditor({
+  defaultValue,
+  currencyCode,
+  isAvailable,
+  error,
+}: {
+  defaultValue: RuleDiscountInput | null;
+  currencyCode: string;
+  isAvailable: boolean; // Discounts need a paid plan
+  error?: string;
+}) {
+  const [type, setType] = useState<UpsellDiscountTypeKey | "">(
+    defaultValue?.type ?? ""
+  );
+
+  if (!isAvailable) {
+    return (
+      <s-banner variant="info">
+        <s-text>
+          Upgrade to Pro to discount upsells at checkout and show the discounted
+          price in the cart.
+        </s-text>
+      </s-banner>
+    );
+  }
+
+  return (
+    <s-stack direction="inline" gap="base">
+      <s-select
+        name="discountType"
+        label="Discount"
+        value={type}
+        onChange={(e) => setType(e.currentTarget.value as UpsellDiscountTypeKey | "")}
+      >
+        <option value="">No discount</option>
+        {(Object.keys(UPSELL_DISCOUNT_TYPES) as UpsellDiscountTypeKey[]).map((key) => (
+          <option key={key} value={key}>
+            {UPSELL_DISCOUNT_TYPES[key].label}
+          </option>
+        ))}
+      </s-select>
+
+      {type && (
+        <s-number-field
+          name="discountValue"
+          label={type === "PERCENTAGE" ? "Percent off" : `Amount off (${currencyCode})`}
+          min={0.01}
+          max={type === "PERCENTAGE" ? 100 : undefined}
+          step={0.01}
+          defaultValue={defaultValue ? String(defaultValue.value) : undefined}
+          error={error}
+        />
+      )}
+    </s-stack>
+  );
+}
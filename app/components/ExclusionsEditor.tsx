@@ -0,0 +1,102 @@
+import { useState } from "react";
+import {
+  MultiCollectionPickerButton,
+  MultiProductPickerButton,
+  type PickedResource,
+} from "./ResourcePickers";
+
+/**
+ * Exclusions Editor
+ *
+ * Products, collections and tags that stop a rule from offering. Products
+ * and collections are submitted as repeated GID fields, tags as a single
+ * comma-separated field.
+ */
+export function ExclusionsEditor({
+  defaultValue,
+}: {
+  defaultValue: {
+    products: PickedResource[];
+    collections: PickedResource[];
+    tags: string[];
+  };
+}) {
+  const [products, setProducts] = useState<PickedResource[]>(defaultValue.products);
+  const [collections, setCollections] = useState<PickedResource[]>(
+    defaultValue.collections
+  );
+
+  return (
+    <s-stack direction="block" gap="base">
+      <div>
+        <s-text>Products</s-text>
+        <ExcludedResourceList
+          name="excludedProductIds"
+          resources={products}
+          onRemove={(id) => setProducts(products.filter((product) => product.id !== id))}
+        />
+        <MultiProductPickerButton
+          selectedIds={products.map((product) => product.id)}
+          onSelect={setProducts}
+          label={products.length > 0 ? "Change Products" : "Select Products"}
+        />
+      </div>
+
+      <div>
+        <s-text>Collections</s-text>
+        <ExcludedResourceList
+          name="excludedCollectionIds"
+          resources={collections}
+          onRemove={(id) =>
+            setCollections(collections.filter((collection) => collection.id !== id))
+          }
+        />
+        <MultiCollectionPickerButton
+          selectedIds={collections.map((collection) => collection.id)}
+          onSelect={setCollections}
+          label={collections.length > 0 ? "Change Collections" : "Select Collections"}
+        />
+      </div>
+
+      <s-text-field
+        name="excludedTags"
+        label="Product tags"
+        placeholder="e.g., bundle, gift-set"
+        defaultValue={defaultValue.tags.join(", ")}
+        details="Comma-separated"
+      />
+    </s-stack>
+  );
+}
+
+/**
+ * Removable list of excluded resources, submitted as repeated hidden fields
+ */
+export function ExcludedResourceList({
+  name,
+  resources,
+  onRemove,
+}: {
+  name: string;
+  resources: PickedResource[];
+  onRemove: (id: string) => void;
+}) {
+  return (
+    <>
+      {resources.map((resource) => (
+        <div
+          key={resource.id}
+          style={{ display: "flex", alignItems: "center", gap: "8px", marginTop: "4px" }}
+        >
+          <input type="hidden" name={name} value={resource.id} />
+          <div style={{ flex: 1 }}>
+            <s-text>{resource.title}</s-text>
+          </div>
+          <s-button variant="tertiary" onClick={() => onRemove(resource.id)}>
+            Remove
+          </s-button>
+        </div>
+      ))}
+    </>
+  );
+}
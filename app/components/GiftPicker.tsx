@@ -0,0 +1,57 @@
+import { useState } from "react";
+import { VariantPickerButton } from "./ResourcePickers";
+import type { RuleGiftInput } from "../rules";
+
+/**
+ * Gift Picker
+ *
+ * Picks the variant a gift rule adds to the cart for free. The pick is
+ * submitted as "giftProductId" and "giftVariantId" fields.
+ */
+export function GiftPicker({
+  defaultValue,
+  defaultTitle,
+  isAvailable,
+  error,
+}: {
+  defaultValue: RuleGiftInput | null;
+  defaultTitle?: string; // Title of the current gift product
+  isAvailable: boolean; // Gifts need a paid plan
+  error?: string;
+}) {
+  const [gift, setGift] = useState<RuleGiftInput | null>(defaultValue);
+
+  if (!isAvailable) {
+    return (
+      <s-banner variant="info">
+        <s-text>
+          Upgrade to Pro to add free gifts to qualifying carts.
+        </s-text>
+      </s-banner>
+    );
+  }
+
+  return (
+    <s-stack direction="block" gap="small-200">
+      {gift && (
+        <>
+          <input type="hidden" name="giftProductId" value={gift.productId} />
+          <input type="hidden" name="giftVariantId" value={gift.variantId} />
+        </>
+      )}
+      {gift && defaultTitle && gift.variantId === defaultValue?.variantId && (
+        <s-text>{defaultTitle}</s-text>
+      )}
+      <VariantPickerButton
+        selectedId={gift?.variantId ?? ""}
+        onSelect={(productId, variantId) => setGift({ productId, variantId })}
+        label={gift ? "Change Gift" : "Select Gift"}
+      />
+      <s-text variant="muted" size="small">
+        One unit of the gift is added to the cart while it matches this rule, and
+        removed once it no longer does. It&apos;s free at checkout.
+      </s-text>
+      {error && <s-text variant="error">{error}</s-text>}
+    </s-stack>
+  );
+}
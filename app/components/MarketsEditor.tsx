@@ -0,0 +1,136 @@
+import { useState } from "react";
+import type { MarketOption } from "../rules";
+
+/**
+ * Markets Editor
+ *
+ * Limits a rule to countries, grouped by the shop's markets. Checking a
+ * market selects all of its countries. Selected countries are submitted as
+ * repeated "countryCodes" fields; none selected means every country.
+ */
+export function MarketsEditor({
+  markets,
+  defaultValue,
+}: {
+  markets: MarketOption[];
+  defaultValue: string[];
+}) {
+  const [selected, setSelected] = useState<string[]>(defaultValue);
+
+  // Fall back to free text if the shop's markets couldn't be loaded
+  if (markets.length === 0) {
+    return (
+      <s-text-field
+        name="countryCodes"
+        label="Country codes"
+        placeholder="e.g., US, CA"
+        defaultValue={defaultValue.join(", ")}
+        details="Comma-separated two-letter codes. Leave empty for all countries."
+      />
+    );
+  }
+
+  const toggle = (codes: string[], checked: boolean) =>
+    setSelected(
+      checked
+        ? [...new Set([...selected, ...codes])]
+        : selected.filter((code) => !codes.includes(code))
+    );
+
+  // Keep saved countries that are no longer in any market
+  const marketCodes = markets.flatMap((market) =>
+    market.countries.map((country) => country.code)
+  );
+  const otherCodes = selected.filter((code) => !marketCodes.includes(code));
+
+  return (
+    <s-stack direction="block" gap="base">
+      {markets.map((market) => {
+        const codes = market.countries.map((country) => country.code);
+        const selectedCount = codes.filter((code) => selected.includes(code)).length;
+
+        return (
+          <div key={market.id}>
+            <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+              <input
+                type="checkbox"
+                checked={selectedCount === codes.length}
+                onChange={(e) => toggle(codes, e.currentTarget.checked)}
+              />
+              <s-text weight="semibold">{market.name}</s-text>
+              <s-text variant="muted" size="small">
+                {selectedCount} of {codes.length} countries
+              </s-text>
+            </label>
+            <div
+              style={{
+                display: "flex",
+                flexWrap: "wrap",
+                gap: "4px 12px",
+                margin: "4px 0 0 24px",
+              }}
+            >
+              {market.countries.map((country) => (
+                <CountryCheckbox
+                  key={country.code}
+                  code={country.code}
+                  label={country.name}
+                  checked={selected.includes(country.code)}
+                  onChange={(checked) => toggle([country.code], checked)}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      {otherCodes.length > 0 && (
+        <div>
+          <s-text weight="semibold">Other countries</s-text>
+          <div style={{ display: "flex", flexWrap: "wrap", gap: "4px 12px", marginTop: "4px" }}>
+            {otherCodes.map((code) => (
+              <CountryCheckbox
+                key={code}
+                code={code}
+                label={code}
+                checked
+                onChange={(checked) => toggle([code], checked)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+
+      <s-text variant="muted" size="small">
+        {selected.length > 0
+          ? `Shown in ${selected.length} ${selected.length === 1 ? "country" : "countries"}`
+          : "Shown in all countries"}
+      </s-text>
+    </s-stack>
+  );
+}
+
+function CountryCheckbox({
+  code,
+  label,
+  checked,
+  onChange,
+}: {
+  code: string;
+  label: string;
+  checked: boolean;
+  onChange: (checked: boolean) => void;
+}) {
+  return (
+    <label style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+      <input
+        type="checkbox"
+        name="countryCodes"
+        value={code}
+        checked={checked}
+        onChange={(e) => onChange(e.currentTarget.checked)}
+      />
+      <s-text>{label}</s-text>
+    </label>
+  );
+}
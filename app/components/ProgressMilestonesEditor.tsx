@@ -0,0 +1,156 @@
+import { useState } from "react";
+import {
+  DEFAULT_MILESTONE,
+  MAX_PROGRESS_MILESTONES,
+  MILESTONE_ICONS,
+  type MarketCurrency,
+  type ProgressMilestoneInput,
+} from "../milestones";
+
+/**
+ * Progress Milestones Editor
+ *
+ * The cart subtotals the progress bar counts towards. Each milestone is
+ * submitted as matching "milestoneThresholds", "milestoneMessages" and
+ * "milestoneIcons" fields; they're sorted by threshold when saved. Each
+ * market currency gets a "milestoneThresholds.<currency>" field per
+ * milestone, left empty to convert the shop-currency threshold.
+ */
+export function ProgressMilestonesEditor({
+  defaultValue,
+  currencySymbol,
+  marketCurrencies,
+}: {
+  defaultValue: ProgressMilestoneInput[];
+  currencySymbol: string;
+  marketCurrencies: MarketCurrency[];
+}) {
+  // Rows need a stable key while milestones are added and removed
+  const [milestones, setMilestones] = useState(
+    defaultValue.map((milestone, index) => ({ ...milestone, key: index }))
+  );
+  const [nextKey, setNextKey] = useState(defaultValue.length);
+
+  // Keep saved thresholds for currencies no longer used by any market
+  const savedCodes = defaultValue.flatMap((milestone) => Object.keys(milestone.currencyThresholds));
+  const currencies = [
+    ...marketCurrencies,
+    ...[...new Set(savedCodes)]
+      .filter((code) => !marketCurrencies.some((currency) => currency.currencyCode === code))
+      .map((code) => ({ currencyCode: code, markets: [] })),
+  ];
+
+  const addMilestone = () => {
+    const highest = milestones.reduce((max, milestone) => Math.max(max, milestone.threshold), 0);
+    const milestone =
+      milestones.length === 0
+        ? DEFAULT_MILESTONE
+        : {
+            threshold: highest + DEFAULT_MILESTONE.threshold,
+            currencyThresholds: {},
+            message: "",
+            icon: "🎁",
+          };
+
+    setMilestones([...milestones, { ...milestone, key: nextKey }]);
+    setNextKey(nextKey + 1);
+  };
+
+  return (
+    <s-stack direction="block" gap="small-200">
+      {milestones.map((milestone) => (
+        <div
+          key={milestone.key}
+          style={{
+            display: "flex",
+            flexDirection: "column",
+            gap: "8px",
+            padding: "0.5rem 0.75rem",
+            background: "#f9fafb",
+            borderRadius: "8px",
+            border: "1px solid #e5e7eb",
+          }}
+        >
+          <div style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+            <s-text>At {currencySymbol}</s-text>
+            <input
+              type="number"
+              name="milestoneThresholds"
+              min="0.01"
+              step="0.01"
+              aria-label="Milestone threshold"
+              defaultValue={milestone.threshold}
+              style={{ width: "96px" }}
+            />
+            <s-text>unlock</s-text>
+            <input
+              type="text"
+              name="milestoneMessages"
+              aria-label="Milestone message"
+              placeholder="e.g., free shipping"
+              defaultValue={milestone.message}
+              style={{ flex: 1 }}
+            />
+            <select
+              name="milestoneIcons"
+              aria-label="Milestone icon"
+              defaultValue={milestone.icon}
+            >
+              <option value="">No icon</option>
+              {MILESTONE_ICONS.map((option) => (
+                <option key={option.icon} value={option.icon}>
+                  {option.icon} {option.label}
+                </option>
+              ))}
+            </select>
+            <s-button
+              variant="tertiary"
+              onClick={() =>
+                setMilestones(milestones.filter((existing) => existing.key !== milestone.key))
+              }
+            >
+              Remove
+            </s-button>
+          </div>
+
+          {currencies.length > 0 && (
+            <div style={{ display: "flex", flexWrap: "wrap", alignItems: "center", gap: "8px" }}>
+              {currencies.map((currency) => (
+                <label
+                  key={currency.currencyCode}
+                  title={currency.markets.join(", ")}
+                  style={{ display: "flex", alignItems: "center", gap: "4px" }}
+                >
+                  <s-text variant="muted" size="small">
+                    {currency.currencyCode}
+                  </s-text>
+                  <input
+                    type="number"
+                    name={`milestoneThresholds.${currency.currencyCode}`}
+                    min="0.01"
+                    step="0.01"
+                    placeholder="Auto"
+                    defaultValue={milestone.currencyThresholds[currency.currencyCode]}
+                    style={{ width: "88px" }}
+                  />
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+
+      {milestones.length < MAX_PROGRESS_MILESTONES && (
+        <s-button onClick={addMilestone}>Add Milestone</s-button>
+      )}
+
+      {currencies.length > 0 && (
+        <s-text variant="muted" size="small">
+          Buyers shopping in another currency see the milestone&apos;s threshold for it.
+          Leave a currency empty to convert the {currencySymbol} threshold at your
+          store&apos;s exchange rate.
+        </s-text>
+      )}
+    </s-stack>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState } from "react";
+import { MAX_QUANTITY_TIERS, type QuantityTierInput } from "../rules";
+
+/**
+ * Quantity Tiers Editor
+ *
+ * Volume offers for a rule's upsells, e.g. "Buy 2, save 10%". Each tier is
+ * submitted as matching "tierQuantities" and "tierDiscountPercents" fields;
+ * a tier without a discount is still offered as a quantity choice.
+ */
+export function QuantityTiersEditor({
+  defaultValue,
+  error,
+}: {
+  defaultValue: QuantityTierInput[];
+  error?: string;
+}) {
+  // Rows need a stable key while tiers are added and removed
+  const [tiers, setTiers] = useState(
+    defaultValue.map((tier, index) => ({ ...tier, key: index }))
+  );
+  const [nextKey, setNextKey] = useState(defaultValue.length);
+
+  const addTier = () => {
+    const largest = tiers.reduce((max, tier) => Math.max(max, tier.quantity), 1);
+    setTiers([...tiers, { quantity: largest + 1, discountPercent: 0, key: nextKey }]);
+    setNextKey(nextKey + 1);
+  };
+
+  return (
+    <s-stack direction="block" gap="small-200">
+      {tiers.map((tier) => (
+        <div
+          key={tier.key}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "0.5rem 0.75rem",
+            background: "#f9fafb",
+            borderRadius: "8px",
+            border: "1px solid #e5e7eb",
+          }}
+        >
+          <s-text>Buy</s-text>
+          <input
+            type="number"
+            name="tierQuantities"
+            min="2"
+            step="1"
+            aria-label="Tier quantity"
+            defaultValue={tier.quantity}
+            style={{ width: "64px" }}
+          />
+          <s-text>and save</s-text>
+          <input
+            type="number"
+            name="tierDiscountPercents"
+            min="0"
+            max="100"
+            step="0.01"
+            aria-label="Tier discount percent"
+            defaultValue={tier.discountPercent}
+            style={{ width: "72px" }}
+          />
+          <div style={{ flex: 1 }}>
+            <s-text>%</s-text>
+          </div>
+          <s-button
+            variant="tertiary"
+            onClick={() => setTiers(tiers.filter((existing) => existing.key !== tier.key))}
+          >
+            Remove
+          </s-button>
+        </div>
+      ))}
+
+      {tiers.length < MAX_QUANTITY_TIERS && (
+        <s-button onClick={addTier}>Add Tier</s-button>
+      )}
+
+      <s-text variant="muted" size="small">
+        Customers pick a quantity in the offer card. The tier discount applies to
+        every unit at checkout; tiers without a discount use the rule&apos;s discount.
+      </s-text>
+
+      {error && <s-text variant="error">{error}</s-text>}
+    </s-stack>
+  );
+}
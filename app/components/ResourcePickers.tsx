@@ -0,0 +1,209 @@
+/**
+ * Resource Pickers
+ *
+ * Buttons that open the App Bridge resource picker for products, variants
+ * and collections. Shared by the rule forms and the condition builder.
+ */
+
+export function ProductPickerButton({
+  selectedId,
+  onSelect,
+  label,
+}: {
+  selectedId: string;
+  onSelect: (id: string) => void;
+  label: string;
+}) {
+  const handleClick = () => {
+    // Use Shopify App Bridge to open product picker
+    // @ts-ignore
+    if (window.shopify?.resourcePicker) {
+      // @ts-ignore
+      window.shopify.resourcePicker({
+        type: "product",
+        action: "select",
+        filter: {
+          variants: false,
+        },
+      }).then((selection: any) => {
+        if (selection && selection.length > 0) {
+          onSelect(selection[0].id);
+        }
+      });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <s-button onClick={handleClick}>{label}</s-button>
+      {selectedId && (
+        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
+          Selected: {selectedId}
+        </s-text>
+      )}
+    </div>
+  );
+}
+
+export interface PickedResource {
+  id: string;
+  title: string;
+}
+
+export function MultiProductPickerButton({
+  selectedIds,
+  onSelect,
+  label,
+}: {
+  selectedIds: string[];
+  onSelect: (products: PickedResource[]) => void;
+  label: string;
+}) {
+  const handleClick = () => {
+    // Use Shopify App Bridge to open product picker with multi-select,
+    // pre-selecting the current products
+    // @ts-ignore
+    if (window.shopify?.resourcePicker) {
+      // @ts-ignore
+      window.shopify.resourcePicker({
+        type: "product",
+        action: "select",
+        multiple: true,
+        selectionIds: selectedIds.map((id) => ({ id })),
+        filter: {
+          variants: false,
+        },
+      }).then((selection: any) => {
+        if (selection) {
+          onSelect(
+            selection.map((product: any) => ({
+              id: product.id,
+              title: product.title,
+            }))
+          );
+        }
+      });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <s-button onClick={handleClick}>{label}</s-button>
+    </div>
+  );
+}
+
+export function MultiCollectionPickerButton({
+  selectedIds,
+  onSelect,
+  label,
+}: {
+  selectedIds: string[];
+  onSelect: (collections: PickedResource[]) => void;
+  label: string;
+}) {
+  const handleClick = () => {
+    // Use Shopify App Bridge to open collection picker with multi-select,
+    // pre-selecting the current collections
+    // @ts-ignore
+    if (window.shopify?.resourcePicker) {
+      // @ts-ignore
+      window.shopify.resourcePicker({
+        type: "collection",
+        action: "select",
+        multiple: true,
+        selectionIds: selectedIds.map((id) => ({ id })),
+      }).then((selection: any) => {
+        if (selection) {
+          onSelect(
+            selection.map((collection: any) => ({
+              id: collection.id,
+              title: collection.title,
+            }))
+          );
+        }
+      });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <s-button onClick={handleClick}>{label}</s-button>
+    </div>
+  );
+}
+
+export function VariantPickerButton({
+  selectedId,
+  onSelect,
+  label,
+}: {
+  selectedId: string;
+  onSelect: (productId: string, variantId: string) => void;
+  label: string;
+}) {
+  const handleClick = () => {
+    // Product picker with variant selection; the first selected variant wins
+    // @ts-ignore
+    if (window.shopify?.resourcePicker) {
+      // @ts-ignore
+      window.shopify.resourcePicker({
+        type: "product",
+        action: "select",
+      }).then((selection: any) => {
+        const variant = selection?.[0]?.variants?.[0];
+        if (variant) {
+          onSelect(selection[0].id, variant.id);
+        }
+      });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <s-button onClick={handleClick}>{label}</s-button>
+      {selectedId && (
+        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
+          Selected: {selectedId}
+        </s-text>
+      )}
+    </div>
+  );
+}
+
+export function CollectionPickerButton({
+  selectedId,
+  onSelect,
+  label,
+}: {
+  selectedId: string;
+  onSelect: (id: string) => void;
+  label: string;
+}) {
+  const handleClick = () => {
+    // Use Shopify App Bridge to open collection picker
+    // @ts-ignore
+    if (window.shopify?.resourcePicker) {
+      // @ts-ignore
+      window.shopify.resourcePicker({
+        type: "collection",
+        action: "select",
+      }).then((selection: any) => {
+        if (selection && selection.length > 0) {
+          onSelect(selection[0].id);
+        }
+      });
+    }
+  };
+
+  return (
+    <div style={{ marginTop: "8px" }}>
+      <s-button onClick={handleClick}>{label}</s-button>
+      {selectedId && (
+        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
+          Selected: {selectedId}
+        </s-text>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,42 @@
+import { RULE_CONFLICT_TYPES, type RuleConflict } from "../rules";
+
+/**
+ * Rule Conflicts Banner
+ *
+ * Shown when saving a rule would conflict with the shop's other rules.
+ * "Save anyway" resubmits the form with "acknowledgeConflicts" set.
+ */
+export function RuleConflictsBanner({
+  conflicts,
+  isSubmitting,
+}: {
+  conflicts: RuleConflict[];
+  isSubmitting: boolean;
+}) {
+  return (
+    <s-banner variant="warning">
+      <s-stack direction="block" gap="base">
+        <s-text weight="semibold">This rule conflicts with other rules</s-text>
+        <ul style={{ margin: 0, paddingLeft: "20px" }}>
+          {conflicts.map((conflict, index) => (
+            <li key={index}>
+              <s-text>
+                {RULE_CONFLICT_TYPES[conflict.type].label}: {conflict.message}
+              </s-text>
+            </li>
+          ))}
+        </ul>
+        <div>
+          <s-button
+            type="submit"
+            name="acknowledgeConflicts"
+            value="true"
+            {...(isSubmitting ? { loading: true } : {})}
+          >
+            Save anyway
+          </s-button>
+        </div>
+      </s-stack>
+    </s-banner>
+  );
+}
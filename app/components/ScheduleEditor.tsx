@@ -0,0 +1,94 @@
+import { WEEKDAYS, formatHour } from "../schedules";
+
+/**
+ * Schedule Editor
+ *
+ * Optional start/end dates and a recurring weekly window. Dates are entered
+ * as wall-clock time in the shop's timezone; leaving everything empty keeps
+ * the rule running all the time.
+ */
+export function ScheduleEditor({
+  defaultValue,
+  timeZone,
+  error,
+}: {
+  defaultValue: {
+    startsAt: string; // datetime-local value in the shop's timezone
+    endsAt: string;
+    days: number[];
+    startHour: number | null;
+    endHour: number | null;
+  };
+  timeZone: string;
+  error?: string;
+}) {
+  const hours = Array.from({ length: 25 }, (_, hour) => hour);
+
+  return (
+    <s-stack direction="block" gap="base">
+      <s-text variant="muted" size="small">
+        Times are in the store timezone ({timeZone}).
+      </s-text>
+
+      <s-stack direction="inline" gap="base">
+        <label style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <s-text>Starts</s-text>
+          <input type="datetime-local" name="startsAt" defaultValue={defaultValue.startsAt} />
+        </label>
+        <label style={{ display: "flex", flexDirection: "column", gap: "4px" }}>
+          <s-text>Ends</s-text>
+          <input type="datetime-local" name="endsAt" defaultValue={defaultValue.endsAt} />
+        </label>
+      </s-stack>
+
+      <div>
+        <s-text>Days of week</s-text>
+        <div style={{ display: "flex", gap: "12px", marginTop: "4px" }}>
+          {WEEKDAYS.map((label, day) => (
+            <label key={label} style={{ display: "flex", alignItems: "center", gap: "4px" }}>
+              <input
+                type="checkbox"
+                name="scheduleDays"
+                value={day}
+                defaultChecked={defaultValue.days.includes(day)}
+              />
+              <s-text>{label}</s-text>
+            </label>
+          ))}
+        </div>
+        <s-text variant="muted" size="small">
+          Leave all unchecked to run every day
+        </s-text>
+      </div>
+
+      <s-stack direction="inline" gap="base">
+        <s-select
+          name="scheduleStartHour"
+          label="From"
+          value={defaultValue.startHour === null ? "" : String(defaultValue.startHour)}
+        >
+          <option value="">All day</option>
+          {hours.slice(0, 24).map((hour) => (
+            <option key={hour} value={String(hour)}>
+              {formatHour(hour)}
+            </option>
+          ))}
+        </s-select>
+        <s-select
+          name="scheduleEndHour"
+          label="Until"
+          value={defaultValue.endHour === null ? "" : String(defaultValue.endHour)}
+        >
+          <option value="">All day</option>
+          {hours.slice(1).map((hour) => (
+            <option key={hour} value={String(hour)}>
+              {formatHour(hour)}
+            </option>
+          ))}
+        </s-select>
+      </s-stack>
+
+      {error && <s-text variant="error">{error}</s-text>}
+    </s-stack>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { MultiProductPickerButton, type PickedResource } from "./ResourcePickers";
+
+/**
+ * Upsell Product List
+ *
+ * Ordered list of a rule's upsell products. Products are submitted as
+ * repeated "upsellProductIds" fields in display order. When the products
+ * are A/B tested, each one's traffic weight is submitted as a matching
+ * "upsellTrafficWeights" field.
+ */
+export function UpsellProductList({
+  defaultValue,
+  defaultExperiment = false,
+  defaultWeights = {},
+  error,
+}: {
+  defaultValue: PickedResource[];
+  defaultExperiment?: boolean;
+  defaultWeights?: Record<string, number>; // Traffic weight by product GID
+  error?: string;
+}) {
+  const [products, setProducts] = useState<PickedResource[]>(defaultValue);
+  const [isExperiment, setIsExperiment] = useState(defaultExperiment);
+  const [weights, setWeights] = useState<Record<string, number>>(defaultWeights);
+
+  const weightOf = (productId: string) => weights[productId] ?? 1;
+  const totalWeight = products.reduce((sum, product) => sum + weightOf(product.id), 0);
+
+  // Keep the current order for products that stay selected; append new ones
+  const handleSelect = (selection: PickedResource[]) => {
+    const selectedIds = selection.map((product) => product.id);
+    const kept = products.filter((product) => selectedIds.includes(product.id));
+    const added = selection.filter(
+      (product) => !kept.some((existing) => existing.id === product.id)
+    );
+    setProducts([...kept, ...added]);
+  };
+
+  const move = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= products.length) return;
+
+    const next = [...products];
+    [next[index], next[target]] = [next[target], next[index]];
+    setProducts(next);
+  };
+
+  return (
+    <s-stack direction="block" gap="small-200">
+      {products.map((product, index) => (
+        <div
+          key={product.id}
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "8px",
+            padding: "0.5rem 0.75rem",
+            background: "#f9fafb",
+            borderRadius: "8px",
+            border: "1px solid #e5e7eb",
+          }}
+        >
+          <input type="hidden" name="upsellProductIds" value={product.id} />
+          <s-text>{index + 1}.</s-text>
+          <div style={{ flex: 1 }}>
+            <s-text>{product.title}</s-text>
+          </div>
+          {isExperiment && (
+            <>
+              <input
+                type="number"
+                name="upsellTrafficWeights"
+                min="1"
+                step="1"
+                aria-label={`Traffic weight for ${product.title}`}
+                value={weightOf(product.id)}
+                onChange={(event) =>
+                  setWeights({
+                    ...weights,
+                    [product.id]: Math.max(1, Math.floor(Number(event.target.value) || 1)),
+                  })
+                }
+                style={{ width: "64px" }}
+              />
+              <s-text variant="muted" size="small">
+                {totalWeight > 0
+                  ? `${Math.round((weightOf(product.id) / totalWeight) * 100)}%`
+                  : "—"}
+              </s-text>
+            </>
+          )}
+          <s-button
+            variant="tertiary"
+            disabled={index === 0}
+            onClick={() => move(index, -1)}
+          >
+            Up
+          </s-button>
+          <s-button
+            variant="tertiary"
+            disabled={index === products.length - 1}
+            onClick={() => move(index, 1)}
+          >
+            Down
+          </s-button>
+          <s-button
+            variant="tertiary"
+            onClick={() =>
+              setProducts(products.filter((existing) => existing.id !== product.id))
+            }
+          >
+            Remove
+          </s-button>
+        </div>
+      ))}
+
+      <MultiProductPickerButton
+        selectedIds={products.map((product) => product.id)}
+        onSelect={handleSelect}
+        label={products.length > 0 ? "Change Upsell Products" : "Select Upsell Products"}
+      />
+
+      <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+        <input
+          type="checkbox"
+          name="isExperiment"
+          value="true"
+          checked={isExperiment}
+          onChange={(event) => setIsExperiment(event.target.checked)}
+        />
+        <s-text>A/B test these products</s-text>
+      </label>
+      {isExperiment && (
+        <s-text variant="muted" size="small">
+          Each visitor sees one of the products, split by the traffic weights. Compare
+          them under Analytics and promote the winner when the test is done.
+        </s-text>
+      )}
+
+      {error && <s-text variant="error">{error}</s-text>}
+    </s-stack>
+  );
+}
@@ -0,0 +1,400 @@
+import type { Prisma } from "@prisma/client";
+import type { AdminGraphqlClient } from "./collections.server";
+import { fetchProductSnapshot, normalizeAttribute } from "./products.server";
+import {
+  AUDIENCES,
+  CONDITION_OPERATORS,
+  TRIGGER_TYPES,
+  isAttributeTrigger,
+  supportsMinQuantity,
+  type AttributeTriggerType,
+  type AudienceKey,
+  type ConditionInput,
+  type ConditionOperatorKey,
+  type RuleAudienceInput,
+  type RuleConditionsInput,
+  type RuleExclusionsInput,
+  type RuleFrequencyCapsInput,
+  type TriggerTypeKey,
+} from "./rules";
+
+/**
+ * Rule Conditions (Server)
+ *
+ * Parsing, validation and persistence of the AND/OR condition groups
+ * submitted by the rule forms' condition builder
+ */
+
+// Prisma include for loading a rule's conditions in evaluation order
+export const conditionGroupsInclude = {
+  conditionGroups: {
+    orderBy: { position: "asc" },
+    include: {
+      conditions: {
+        orderBy: { position: "asc" },
+      },
+    },
+  },
+} satisfies Prisma.RuleInclude;
+
+export type RuleWithConditions = Prisma.RuleGetPayload<{
+  include: typeof conditionGroupsInclude;
+}>;
+
+function toOperator(value: unknown): ConditionOperatorKey {
+  return value === "OR" ? "OR" : "AND";
+}
+
+function toText(value: unknown): string {
+  return typeof value === "string" ? value.trim() : "";
+}
+
+/**
+ * Parse the condition builder's JSON form field
+ *
+ * @returns Normalized conditions, or null if the field is missing or malformed
+ */
+export function parseConditionsInput(
+  raw: FormDataEntryValue | null
+): RuleConditionsInput | null {
+  if (typeof raw !== "string" || !raw) return null;
+
+  try {
+    const parsed = JSON.parse(raw);
+
+    return {
+      operator: toOperator(parsed.operator),
+      groups: (Array.isArray(parsed.groups) ? parsed.groups : []).map(
+        (group: Record<string, unknown>) => ({
+          operator: toOperator(group.operator),
+          conditions: (Array.isArray(group.conditions) ? group.conditions : []).map(
+            (condition: Record<string, unknown>): ConditionInput => ({
+              type: (condition.type as TriggerTypeKey) in TRIGGER_TYPES
+                ? (condition.type as TriggerTypeKey)
+                : "PRODUCT",
+              negate: condition.negate === true,
+              productId: toText(condition.productId),
+              variantId: toText(condition.variantId),
+              collectionId: toText(condition.collectionId),
+              value: toText(condition.value),
+              minSubtotal: toText(condition.minSubtotal),
+              maxSubtotal: toText(condition.maxSubtotal),
+              minQuantity: toText(condition.minQuantity),
+            })
+          ),
+        })
+      ),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Validate a single condition
+ *
+ * @returns Error message, or null if valid
+ */
+function validateCondition(condition: ConditionInput): string | null {
+  if (supportsMinQuantity(condition.type) && condition.minQuantity) {
+    const minQuantity = Number(condition.minQuantity);
+    if (!Number.isInteger(minQuantity) || minQuantity < 1) {
+      return "minimum quantity must be a whole number of at least 1";
+    }
+  }
+
+  switch (condition.type) {
+    case "PRODUCT":
+      return condition.productId ? null : "select a trigger product";
+
+    case "VARIANT":
+      return condition.productId && condition.variantId
+        ? null
+        : "select a trigger variant";
+
+    case "COLLECTION":
+      return condition.collectionId ? null : "select a trigger collection";
+
+    case "CART_VALUE": {
+      const min = parseFloat(condition.minSubtotal);
+      const max = parseFloat(condition.maxSubtotal);
+
+      if (isNaN(min) && isNaN(max)) {
+        return "enter a minimum or maximum cart subtotal";
+      }
+      if (min < 0 || max < 0) {
+        return "subtotal bounds can't be negative";
+      }
+      if (min > max) {
+        return "minimum subtotal must not exceed the maximum";
+      }
+      return null;
+    }
+
+    default:
+      return condition.value
+        ? null
+        : `select a trigger ${TRIGGER_TYPES[condition.type].label.toLowerCase()}`;
+  }
+}
+
+/**
+ * Validate a rule's condition tree
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateConditions(
+  conditions: RuleConditionsInput | null
+): string | null {
+  if (!conditions || conditions.groups.length === 0) {
+    return "Add at least one trigger condition";
+  }
+
+  for (const [groupIndex, group] of conditions.groups.entries()) {
+    if (group.conditions.length === 0) {
+      return `Group ${groupIndex + 1} has no conditions`;
+    }
+
+    for (const [conditionIndex, condition] of group.conditions.entries()) {
+      const error = validateCondition(condition);
+      if (error) {
+        return `Group ${groupIndex + 1}, condition ${conditionIndex + 1}: ${error}`;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check whether the upsell product is also a (non-negated) trigger product
+ */
+export function isUpsellAlsoTrigger(
+  conditions: RuleConditionsInput,
+  upsellProductId: string
+): boolean {
+  return conditions.groups.some((group) =>
+    group.conditions.some(
+      (condition) =>
+        condition.type === "PRODUCT" &&
+        !condition.negate &&
+        condition.productId === upsellProductId
+    )
+  );
+}
+
+/**
+ * Collection GIDs referenced by COLLECTION conditions
+ */
+export function getConditionCollectionIds(
+  conditions: RuleConditionsInput
+): string[] {
+  return [
+    ...new Set(
+      conditions.groups.flatMap((group) =>
+        group.conditions
+          .filter((condition) => condition.type === "COLLECTION")
+          .map((condition) => condition.collectionId)
+      )
+    ),
+  ];
+}
+
+/**
+ * Attributes referenced by TAG, VENDOR and PRODUCT_TYPE conditions and by
+ * tag exclusions, without duplicates
+ */
+export function getConditionAttributes(
+  conditions: RuleConditionsInput,
+  excludedTags: string[]
+): Array<{ type: AttributeTriggerType; value: string }> {
+  const attributes = [
+    ...conditions.groups.flatMap((group) =>
+      group.conditions.flatMap((condition) =>
+        isAttributeTrigger(condition.type) && condition.value
+          ? [{ type: condition.type, value: normalizeAttribute(condition.value) }]
+          : []
+      )
+    ),
+    ...excludedTags.map((tag) => ({ type: "TAG" as const, value: tag })),
+  ];
+
+  return attributes.filter(
+    (attribute, index) =>
+      attributes.findIndex(
+        (other) => other.type === attribute.type && other.value === attribute.value
+      ) === index
+  );
+}
+
+/**
+ * Build nested create input for a rule's condition groups
+ *
+ * Fetches a product snapshot for PRODUCT and VARIANT conditions so the rules
+ * list can show the trigger product, and the offer engine can read the
+ * option values of trigger variants in the cart.
+ */
+export async function buildConditionGroupsCreate(
+  admin: AdminGraphqlClient,
+  conditions: RuleConditionsInput
+): Promise<Prisma.ConditionGroupCreateWithoutRuleInput[]> {
+  return Promise.all(
+    conditions.groups.map(async (group, groupIndex) => ({
+      operator: group.operator,
+      position: groupIndex,
+      conditions: {
+        create: await Promise.all(
+          group.conditions.map(async (condition, conditionIndex) => {
+            let productData: Prisma.InputJsonValue | undefined;
+            const hasProduct =
+              condition.type === "PRODUCT" || condition.type === "VARIANT";
+            if (hasProduct) {
+              try {
+                productData =
+                  (await fetchProductSnapshot(admin, condition.productId)) ??
+                  undefined;
+              } catch (error) {
+                console.error("Error fetching trigger product data:", error);
+              }
+            }
+
+            return {
+              type: condition.type,
+              negate: condition.negate,
+              position: conditionIndex,
+              productId: hasProduct ? condition.productId : null,
+              variantId: condition.type === "VARIANT" ? condition.variantId : null,
+              collectionId:
+                condition.type === "COLLECTION" ? condition.collectionId : null,
+              value: isAttributeTrigger(condition.type) ? condition.value : null,
+              minSubtotal:
+                condition.type === "CART_VALUE" && condition.minSubtotal
+                  ? parseFloat(condition.minSubtotal)
+                  : null,
+              maxSubtotal:
+                condition.type === "CART_VALUE" && condition.maxSubtotal
+                  ? parseFloat(condition.maxSubtotal)
+                  : null,
+              minQuantity:
+                supportsMinQuantity(condition.type) && Number(condition.minQuantity) > 1
+                  ? Number(condition.minQuantity)
+                  : null,
+              productData,
+            };
+          })
+        ),
+      },
+    }))
+  );
+}
+
+/**
+ * Convert a stored rule back into condition builder input
+ */
+export function toConditionsInput(rule: RuleWithConditions): RuleConditionsInput {
+  return {
+    operator: rule.conditionOperator,
+    groups: rule.conditionGroups.map((group) => ({
+      operator: group.operator,
+      conditions: group.conditions.map((condition) => ({
+        type: condition.type,
+        negate: condition.negate,
+        productId: condition.productId || "",
+        variantId: condition.variantId || "",
+        collectionId: condition.collectionId || "",
+        value: condition.value || "",
+        minSubtotal: condition.minSubtotal?.toString() ?? "",
+        maxSubtotal: condition.maxSubtotal?.toString() ?? "",
+        minQuantity: condition.minQuantity?.toString() ?? "",
+      })),
+    })),
+  };
+}
+
+/**
+ * Read the exclusion lists submitted by the rule forms
+ *
+ * Products and collections arrive as repeated GID fields, tags as a single
+ * comma-separated field.
+ */
+export function parseExclusionsInput(formData: FormData): RuleExclusionsInput {
+  const unique = (values: string[]) => [...new Set(values.filter(Boolean))];
+
+  return {
+    productIds: unique(
+      formData.getAll("excludedProductIds").map((value) => String(value).trim())
+    ),
+    collectionIds: unique(
+      formData.getAll("excludedCollectionIds").map((value) => String(value).trim())
+    ),
+    tags: unique(
+      String(formData.get("excludedTags") || "")
+        .split(",")
+        .map(normalizeAttribute)
+    ),
+  };
+}
+
+/**
+ * Read the audience fields submitted by the rule forms
+ *
+ * Customer tags arrive as a single comma-separated field and are dropped
+ * unless the audience is logged-in customers.
+ */
+export function parseAudienceInput(formData: FormData): RuleAudienceInput {
+  const raw = String(formData.get("audience") || "");
+  const audience: AudienceKey = raw in AUDIENCES ? (raw as AudienceKey) : "ALL";
+
+  const customerTags =
+    audience === "CUSTOMERS"
+      ? String(formData.get("audienceCustomerTags") || "")
+          .split(",")
+          .map(normalizeAttribute)
+          .filter(Boolean)
+      : [];
+
+  return { audience, customerTags: [...new Set(customerTags)] };
+}
+
+/**
+ * Read the impression caps submitted by the rule forms
+ *
+ * @returns Caps (empty fields are unlimited), or null if a cap isn't a
+ * whole number of at least 1
+ */
+export function parseFrequencyCapsInput(
+  formData: FormData
+): RuleFrequencyCapsInput | null {
+  const parseCap = (name: string): number | null | undefined => {
+    const value = String(formData.get(name) || "").trim();
+    if (!value) return null;
+    const cap = Number(value);
+    return Number.isInteger(cap) && cap >= 1 ? cap : undefined;
+  };
+
+  const perSession = parseCap("maxImpressionsPerSession");
+  const perCustomer = parseCap("maxImpressionsPerCustomer");
+
+  if (perSession === undefined || perCustomer === undefined) return null;
+  return { perSession, perCustomer };
+}
+
+/**
+ * Human-readable summary of how a rule's conditions combine
+ */
+export function describeConditionLogic(rule: RuleWithConditions): string {
+  const groups = rule.conditionGroups;
+
+  if (groups.length === 1 && groups[0].conditions.length === 1) {
+    const [condition] = groups[0].conditions;
+    return condition.negate
+      ? `Triggers unless: ${TRIGGER_TYPES[condition.type].description.replace(/^Triggers when /, "")}`
+      : TRIGGER_TYPES[condition.type].description;
+  }
+
+  if (groups.length === 1) {
+    return `Triggers when ${CONDITION_OPERATORS[groups[0].operator].description} of ${groups[0].conditions.length} conditions match`;
+  }
+
+  return `Triggers when ${CONDITION_OPERATORS[rule.conditionOperator].description} of ${groups.length} condition groups match`;
+}
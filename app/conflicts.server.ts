@@ -0,0 +1,340 @@
+import type { Rule } from "@prisma/client";
+import { prisma } from "./db.server";
+import {
+  conditionGroupsInclude,
+  toConditionsInput,
+  type RuleWithConditions,
+} from "./conditions.server";
+import type { ConditionInput, RuleConditionsInput, RuleConflict } from "./rules";
+import { upsellsInclude, type RuleWithUpsells } from "./upsells.server";
+
+/**
+ * Rule Conflict Detection
+ *
+ * Static analysis of a shop's rules for the admin: duplicate triggers,
+ * rules that are hidden because higher-priority rules always fill the
+ * offer slots first (or are always replaced by an exclusive rule), and
+ * rules that offer their own trigger product.
+ *
+ * The analysis is conservative. A higher-priority rule only counts as
+ * "always showing" when it has no schedule, audience, market, exclusion or
+ * frequency cap restrictions, isn't running an experiment (each session
+ * sees a different arm) and its trigger is implied by the other rule's.
+ * Offer slots are counted at the shop's limit; theme blocks can set a
+ * higher one, so rules crowded out of the slots are only "may be hidden".
+ * Only upsell rules are analyzed.
+ */
+
+/**
+ * The parts of a rule the analysis looks at
+ */
+export interface AnalyzableRule {
+  id: string;
+  name: string;
+  isEnabled: boolean;
+  priority: number;
+  createdAt: Date; // Tie-breaker for equal priorities, as in the offer engine
+  conditions: RuleConditionsInput;
+  upsellProductIds: string[];
+  isExclusive: boolean;
+  isRestricted: boolean; // Can skip offering even when its trigger matches
+  isExperiment: boolean; // Offers one upsell per session, picked by A/B test
+}
+
+// Rule columns that can stop a matching rule from offering
+type RestrictionFields = Pick<
+  Rule,
+  | "startsAt"
+  | "endsAt"
+  | "scheduleDays"
+  | "scheduleStartHour"
+  | "audience"
+  | "countryCodes"
+  | "excludedProductIds"
+  | "excludedCollectionIds"
+  | "excludedTags"
+  | "maxImpressionsPerSession"
+  | "maxImpressionsPerCustomer"
+>;
+
+/**
+ * Check whether a rule can skip offering even when its trigger matches
+ */
+export function hasRestrictions(rule: RestrictionFields): boolean {
+  return (
+    !!rule.startsAt ||
+    !!rule.endsAt ||
+    rule.scheduleDays.length > 0 ||
+    rule.scheduleStartHour !== null ||
+    rule.audience !== "ALL" ||
+    rule.countryCodes.length > 0 ||
+    rule.excludedProductIds.length > 0 ||
+    rule.excludedCollectionIds.length > 0 ||
+    rule.excludedTags.length > 0 ||
+    rule.maxImpressionsPerSession !== null ||
+    rule.maxImpressionsPerCustomer !== null
+  );
+}
+
+/**
+ * Convert a stored rule for analysis
+ */
+export function toAnalyzableRule(rule: RuleWithConditions & RuleWithUpsells): AnalyzableRule {
+  return {
+    id: rule.id,
+    name: rule.name,
+    isEnabled: rule.isEnabled,
+    priority: rule.priority,
+    createdAt: rule.createdAt,
+    conditions: toConditionsInput(rule),
+    upsellProductIds: rule.upsells.map((upsell) => upsell.productId),
+    isExclusive: rule.isExclusive,
+    isRestricted: hasRestrictions(rule),
+    isExperiment: rule.experimentStartedAt !== null,
+  };
+}
+
+// Canonical form of a condition, ignoring fields its type doesn't use
+function conditionKey(condition: ConditionInput): string {
+  return JSON.stringify([
+    condition.type,
+    condition.negate,
+    condition.productId,
+    condition.variantId,
+    condition.collectionId,
+    condition.value.trim().toLowerCase(),
+    condition.minSubtotal ? parseFloat(condition.minSubtotal) : null,
+    condition.maxSubtotal ? parseFloat(condition.maxSubtotal) : null,
+    Number(condition.minQuantity) > 1 ? Number(condition.minQuantity) : null,
+  ]);
+}
+
+/**
+ * Canonical form of a whole trigger, so equivalent condition trees compare
+ * equal regardless of order. Operators don't matter for single-item lists.
+ */
+function triggerKey(conditions: RuleConditionsInput): string {
+  const groups = conditions.groups
+    .map((group) =>
+      JSON.stringify([
+        group.conditions.length > 1 ? group.operator : "AND",
+        group.conditions.map(conditionKey).sort(),
+      ])
+    )
+    .sort();
+
+  return JSON.stringify([groups.length > 1 ? conditions.operator : "AND", groups]);
+}
+
+/**
+ * The trigger as a set of conditions that must all hold, or null if it
+ * isn't a plain conjunction
+ */
+function conjunction(conditions: RuleConditionsInput): Set<string> | null {
+  if (conditions.groups.length > 1 && conditions.operator !== "AND") return null;
+
+  const keys = new Set<string>();
+  for (const group of conditions.groups) {
+    if (group.conditions.length > 1 && group.operator !== "AND") return null;
+    group.conditions.forEach((condition) => keys.add(conditionKey(condition)));
+  }
+  return keys;
+}
+
+/**
+ * Check whether `rule` matching guarantees that `other` matches too
+ */
+function impliesTrigger(rule: AnalyzableRule, other: AnalyzableRule): boolean {
+  if (triggerKey(rule.conditions) === triggerKey(other.conditions)) return true;
+
+  const ruleConditions = conjunction(rule.conditions);
+  const otherConditions = conjunction(other.conditions);
+  return (
+    !!ruleConditions &&
+    !!otherConditions &&
+    [...otherConditions].every((key) => ruleConditions.has(key))
+  );
+}
+
+/**
+ * Products that must be in the cart for the rule to match
+ */
+function requiredProductIds(conditions: RuleConditionsInput): string[] {
+  const required = conjunction(conditions) ? conditions.groups : [];
+
+  return required.flatMap((group) =>
+    group.conditions
+      .filter(
+        (condition) =>
+          !condition.negate &&
+          (condition.type === "PRODUCT" || condition.type === "VARIANT") &&
+          condition.productId
+      )
+      .map((condition) => condition.productId)
+  );
+}
+
+// Offer engine order: priority, then oldest first
+function compareRules(a: AnalyzableRule, b: AnalyzableRule): number {
+  return a.priority - b.priority || a.createdAt.getTime() - b.createdAt.getTime();
+}
+
+/**
+ * Analyze a set of rules
+ *
+ * @param maxOffers - The shop's offer limit
+ * @param isAutoRanked - Whether auto-rank orders the rules by performance;
+ * their priority order is then unknown, so no rule is reported as hidden
+ * by the rules ahead of it
+ * @returns Conflicts keyed by rule ID; rules without conflicts are omitted
+ */
+export function analyzeRules(
+  rules: AnalyzableRule[],
+  maxOffers: number,
+  isAutoRanked = false
+): Map<string, RuleConflict[]> {
+  const conflicts = new Map<string, RuleConflict[]>();
+  const add = (ruleId: string, conflict: RuleConflict) =>
+    conflicts.set(ruleId, [...(conflicts.get(ruleId) || []), conflict]);
+  const names = (ids: string[]) =>
+    ids.map((id) => `"${rules.find((rule) => rule.id === id)?.name}"`).join(", ");
+
+  const enabled = rules.filter((rule) => rule.isEnabled).sort(compareRules);
+
+  for (const [index, rule] of enabled.entries()) {
+    const required = requiredProductIds(rule.conditions);
+
+    // Upsells that are always in the cart when the rule matches
+    const selfTriggered = rule.upsellProductIds.filter((id) => required.includes(id));
+    if (selfTriggered.length > 0) {
+      add(rule.id, {
+        type: "UPSELL_IS_TRIGGER",
+        message:
+          selfTriggered.length === rule.upsellProductIds.length
+            ? "Every upsell product is also a trigger product, so it's always in the cart already"
+            : `${selfTriggered.length} upsell product(s) are also trigger products and will never be offered`,
+        relatedRuleIds: [],
+      });
+    }
+
+    const duplicates = enabled
+      .filter(
+        (other) =>
+          other.id !== rule.id &&
+          triggerKey(other.conditions) === triggerKey(rule.conditions)
+      )
+      .map((other) => other.id);
+    if (duplicates.length > 0) {
+      add(rule.id, {
+        type: "DUPLICATE_TRIGGER",
+        message: `Same trigger as ${names(duplicates)}`,
+        relatedRuleIds: duplicates,
+      });
+    }
+
+    // An exclusive rule that always matches along with this one replaces
+    // its offers, unless this rule is exclusive and may come first. An
+    // experiment only always offers if none of its arms is a trigger.
+    const exclusive = enabled.find(
+      (other, otherIndex) =>
+        other.id !== rule.id &&
+        other.isExclusive &&
+        !other.isRestricted &&
+        (!rule.isExclusive || (!isAutoRanked && otherIndex < index)) &&
+        impliesTrigger(rule, other) &&
+        (other.isExperiment
+          ? other.upsellProductIds.every((id) => !required.includes(id))
+          : other.upsellProductIds.some((id) => !required.includes(id)))
+    );
+    if (exclusive) {
+      add(rule.id, {
+        type: "SHADOWED",
+        message: `Never shown: exclusive rule ${names([exclusive.id])} always replaces its offers`,
+        relatedRuleIds: [exclusive.id],
+      });
+      add(exclusive.id, {
+        type: "SHADOWED",
+        message: `Keeps ${names([rule.id])} from ever being shown`,
+        relatedRuleIds: [rule.id],
+      });
+      continue;
+    }
+
+    // Exclusive rules replace other offers, so they can't be crowded out,
+    // and under auto-rank any rule can come first
+    if (rule.isExclusive || isAutoRanked) continue;
+
+    // Replay the offer engine for the higher-priority rules that always
+    // show the same products whenever this one matches
+    const offered: string[] = [];
+    const shadowing: string[] = [];
+    for (const higher of enabled.slice(0, index)) {
+      if (higher.isRestricted || higher.isExperiment || !impliesTrigger(rule, higher)) {
+        continue;
+      }
+
+      const added = higher.upsellProductIds
+        .filter((id) => !required.includes(id) && !offered.includes(id))
+        .slice(0, maxOffers - offered.length);
+      if (added.length > 0) {
+        offered.push(...added);
+        shadowing.push(higher.id);
+      }
+      if (offered.length >= maxOffers) break;
+    }
+
+    const remaining = rule.upsellProductIds.filter(
+      (id) => !offered.includes(id) && !required.includes(id)
+    );
+    if (shadowing.length > 0 && (offered.length >= maxOffers || remaining.length === 0)) {
+      add(rule.id, {
+        type: "SHADOWED",
+        message: `May be hidden: ${names(shadowing)} always ${
+          shadowing.length === 1 ? "fills" : "fill"
+        } the offer slots first at the shop's limit of ${maxOffers}. Theme blocks with a higher limit can still show it`,
+        relatedRuleIds: shadowing,
+      });
+      for (const higherId of shadowing) {
+        add(higherId, {
+          type: "SHADOWED",
+          message: `May keep ${names([rule.id])} from being shown`,
+          relatedRuleIds: [rule.id],
+        });
+      }
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Analyze a shop's rules, optionally with an unsaved version of one rule
+ *
+ * @param candidate - Rule being saved; replaces the stored rule with the
+ * same ID, or is added if it's new
+ * @returns Conflicts keyed by rule ID
+ */
+export async function findRuleConflicts(
+  shopId: string,
+  candidate?: AnalyzableRule
+): Promise<Map<string, RuleConflict[]>> {
+  const shop = await prisma.shop.findUniqueOrThrow({ where: { id: shopId } });
+  // Gift rules take no offer slots, so they can't conflict with upsells
+  const stored = await prisma.rule.findMany({
+    where: { shopId, isFallback: false, type: "UPSELL" },
+    include: {
+      ...conditionGroupsInclude,
+      ...upsellsInclude,
+    },
+  });
+
+  const rules = stored
+    .map(toAnalyzableRule)
+    .filter((rule) => rule.id !== candidate?.id);
+
+  return analyzeRules(
+    candidate ? [...rules, candidate] : rules,
+    shop.maxOffers,
+    shop.autoRankEnabled
+  );
+}
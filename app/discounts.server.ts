@@ -0,0 +1,416 @@
+import type { Prisma, QuantityTier, Rule } from "@prisma/client";
+import { prisma } from "./db.server";
+import type { AdminGraphqlClient } from "./collections.server";
+import {
+  conditionGroupsInclude,
+  toConditionsInput,
+  type RuleWithConditions,
+} from "./conditions.server";
+import { getGiftThreshold } from "./gifts.server";
+import {
+  MAX_QUANTITY_TIERS,
+  UPSELL_DISCOUNT_TYPES,
+  type QuantityTierInput,
+  type RuleDiscountInput,
+} from "./rules";
+
+/**
+ * Upsell Discounts
+ *
+ * Rules can discount their upsells at checkout, either with a flat discount
+ * or per quantity tier (volume offers). The discount itself is
+ * applied by the upsell-discount Shopify Function
+ * (extensions/upsell-discount), which runs as one automatic app discount
+ * per shop. The function reads every rule's discount from an app-owned
+ * metafield on that discount, and only discounts cart lines the widget
+ * added with the rule's line property. A line gets the discount of the
+ * largest tier its quantity reaches, or the rule's flat discount if that
+ * tier has no savings or the line is below every tier. Gift rules' gift
+ * lines get one unit for free (see gifts.server.ts).
+ *
+ * The metafield is rewritten whenever a rule's discount, products or status
+ * changes. The Admin API client is passed in, so syncing can run against a
+ * local stand-in of the API.
+ */
+
+export const DISCOUNT_FUNCTION_HANDLE = "upsell-discount";
+
+// App-owned metafield on the automatic discount, read by the function
+export const DISCOUNT_METAFIELD_NAMESPACE = "$app:cart-upsell";
+export const DISCOUNT_METAFIELD_KEY = "rule-discounts";
+
+// Line item property the widget sets on upsells it adds
+export const UPSELL_RULE_PROPERTY = "_upsell_rule_id";
+
+// Prisma include for loading a rule's quantity tiers, smallest first
+export const quantityTiersInclude = {
+  quantityTiers: {
+    orderBy: { quantity: "asc" },
+  },
+} satisfies Prisma.RuleInclude;
+
+/**
+ * Function configuration stored in the discount's metafield
+ */
+export interface UpsellDiscountConfig {
+  rules: Record<
+    string,
+    {
+      discount: RuleDiscountInput | null;
+      tiers: QuantityTierInput[]; // Smallest quantity first
+      productIds: string[]; // Only these products are discounted
+    }
+  >;
+  gifts: Record<
+    string,
+    {
+      variantId: string; // Only this variant is free
+      minSubtotal: number; // Cart subtotal without gifts, in shop currency
+    }
+  >;
+}
+
+/**
+ * A rule's discount, if it has one
+ */
+export function getRuleDiscount(
+  rule: Pick<Rule, "discountType" | "discountValue">
+): RuleDiscountInput | null {
+  if (!rule.discountType || rule.discountValue === null) return null;
+  return { type: rule.discountType, value: Number(rule.discountValue) };
+}
+
+/**
+ * A rule's quantity tiers in input form
+ */
+export function toQuantityTiersInput(tiers: QuantityTier[]): QuantityTierInput[] {
+  return tiers.map((tier) => ({
+    quantity: tier.quantity,
+    discountPercent: Number(tier.discountPercent),
+  }));
+}
+
+/**
+ * Check whether any of a rule's quantity tiers is discounted
+ */
+export function hasTierSavings(tiers: QuantityTierInput[]): boolean {
+  return tiers.some((tier) => tier.discountPercent > 0);
+}
+
+/**
+ * Read the discount fields submitted by the rule forms
+ *
+ * @returns The discount, or null if the rule has none
+ */
+export function parseDiscountInput(formData: FormData): RuleDiscountInput | null {
+  const type = String(formData.get("discountType") || "");
+  if (!(type in UPSELL_DISCOUNT_TYPES)) return null;
+
+  const value = String(formData.get("discountValue") || "").trim();
+  return {
+    type: type as RuleDiscountInput["type"],
+    value: value ? Number(value) : NaN,
+  };
+}
+
+/**
+ * Read the quantity tiers submitted by the rule forms as matching
+ * "tierQuantities" and "tierDiscountPercents" fields
+ *
+ * @returns Tiers sorted by quantity, or null if a tier is invalid
+ */
+export function parseQuantityTiers(formData: FormData): QuantityTierInput[] | null {
+  const quantities = formData.getAll("tierQuantities").map((value) => Number(value));
+  const percents = formData
+    .getAll("tierDiscountPercents")
+    .map((value) => Number(String(value).trim() || 0));
+
+  if (quantities.length !== percents.length) return null;
+
+  const tiers = quantities.map((quantity, index) => ({
+    quantity,
+    discountPercent: percents[index],
+  }));
+  return tiers.sort((a, b) => a.quantity - b.quantity);
+}
+
+/**
+ * Check a rule's quantity tiers
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateQuantityTiers(tiers: QuantityTierInput[] | null): string | null {
+  if (!tiers) return "Each tier needs a quantity and a discount";
+
+  if (tiers.length > MAX_QUANTITY_TIERS) {
+    return `Add at most ${MAX_QUANTITY_TIERS} quantity tiers`;
+  }
+  if (tiers.some((tier) => !Number.isInteger(tier.quantity) || tier.quantity < 2)) {
+    return "Tier quantities must be whole numbers of at least 2";
+  }
+  if (new Set(tiers.map((tier) => tier.quantity)).size !== tiers.length) {
+    return "Each tier needs a different quantity";
+  }
+  if (
+    tiers.some(
+      (tier) =>
+        !Number.isFinite(tier.discountPercent) ||
+        tier.discountPercent < 0 ||
+        tier.discountPercent > 100
+    )
+  ) {
+    return "Tier discounts must be between 0% and 100%";
+  }
+  return null;
+}
+
+/**
+ * Check a rule's discount
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateDiscount(discount: RuleDiscountInput | null): string | null {
+  if (!discount) return null;
+
+  if (!Number.isFinite(discount.value) || discount.value <= 0) {
+    return "Enter a discount greater than 0";
+  }
+  if (discount.type === "PERCENTAGE" && discount.value > 100) {
+    return "A percentage discount can't be more than 100%";
+  }
+  if (Math.abs(Math.round(discount.value * 100) - discount.value * 100) > 1e-6) {
+    return "Use at most two decimal places";
+  }
+  return null;
+}
+
+/**
+ * Build the function configuration from a shop's rules
+ *
+ * Only enabled gift rules with a minimum cart value that are within their
+ * start and end dates, and enabled rules with a discount or discounted
+ * tiers, are included.
+ */
+export function buildDiscountConfig(
+  rules: Array<
+    RuleWithConditions & {
+      upsells: { productId: string; variantId: string | null }[];
+      quantityTiers: QuantityTier[];
+    }
+  >,
+  now: Date = new Date()
+): UpsellDiscountConfig {
+  const config: UpsellDiscountConfig = { rules: {}, gifts: {} };
+
+  for (const rule of rules) {
+    if (rule.type === "GIFT") {
+      // Without a minimum cart value the function couldn't check the gift
+      const variantId = rule.upsells[0]?.variantId;
+      const minSubtotal = getGiftThreshold(toConditionsInput(rule));
+      // The function doesn't see the rule's dates, so a gift outside them is
+      // left out until syncGiftSchedules republishes at the boundary
+      const isInDateRange =
+        (!rule.startsAt || now >= rule.startsAt) && (!rule.endsAt || now < rule.endsAt);
+      if (rule.isEnabled && isInDateRange && variantId && minSubtotal !== null) {
+        config.gifts[rule.id] = { variantId, minSubtotal };
+      }
+      continue;
+    }
+
+    const discount = getRuleDiscount(rule);
+    const tiers = toQuantityTiersInput(rule.quantityTiers);
+    if (!rule.isEnabled || (!discount && !hasTierSavings(tiers))) continue;
+
+    config.rules[rule.id] = {
+      discount,
+      tiers,
+      productIds: rule.upsells.map((upsell) => upsell.productId),
+    };
+  }
+  return config;
+}
+
+/**
+ * Write the shop's rule discounts and gifts to the function's metafield,
+ * creating the automatic discount the first time a rule needs one
+ *
+ * Discounts are a Pro feature; on the Free plan the configuration is
+ * emptied, so the function discounts nothing.
+ *
+ * @throws If the Admin API rejects the discount or metafield
+ */
+export async function syncUpsellDiscount(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  now: Date = new Date()
+): Promise<void> {
+  const shop = await prisma.shop.findUniqueOrThrow({
+    where: { id: shopId },
+    include: {
+      rules: {
+        where: {
+          isFallback: false,
+          OR: [
+            { type: "GIFT" },
+            { discountType: { not: null } },
+            { quantityTiers: { some: { discountPercent: { gt: 0 } } } },
+          ],
+        },
+        include: {
+          ...conditionGroupsInclude,
+          ...quantityTiersInclude,
+          upsells: { select: { productId: true, variantId: true } },
+        },
+      },
+    },
+  });
+
+  const config: UpsellDiscountConfig =
+    shop.currentPlan === "FREE" ? { rules: {}, gifts: {} } : buildDiscountConfig(shop.rules, now);
+  const value = JSON.stringify(config);
+
+  if (shop.upsellDiscountId) {
+    const response = await admin.graphql(
+      `#graphql
+        mutation setUpsellDiscountConfig($metafields: [MetafieldsSetInput!]!) {
+          metafieldsSet(metafields: $metafields) {
+            userErrors {
+              field
+              message
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          metafields: [
+            {
+              ownerId: shop.upsellDiscountId,
+              namespace: DISCOUNT_METAFIELD_NAMESPACE,
+              key: DISCOUNT_METAFIELD_KEY,
+              type: "json",
+              value,
+            },
+          ],
+        },
+      }
+    );
+    const data = await response.json();
+    const userErrors = data.data?.metafieldsSet?.userErrors;
+
+    if (userErrors && userErrors.length === 0) {
+      await prisma.shop.update({
+        where: { id: shopId },
+        data: { upsellDiscountSyncedAt: now },
+      });
+      return;
+    }
+
+    // The merchant may have deleted the discount; create a new one below
+    console.warn(
+      `Upsell discount ${shop.upsellDiscountId} couldn't be updated:`,
+      JSON.stringify(userErrors || data.errors)
+    );
+  }
+
+  // Nothing to discount yet, so don't add a discount to the merchant's admin
+  if (Object.keys(config.rules).length === 0 && Object.keys(config.gifts).length === 0) {
+    await prisma.shop.update({
+      where: { id: shopId },
+      data: { upsellDiscountSyncedAt: now },
+    });
+    return;
+  }
+
+  const response = await admin.graphql(
+    `#graphql
+      mutation createUpsellDiscount($discount: DiscountAutomaticAppInput!) {
+        discountAutomaticAppCreate(automaticAppDiscount: $discount) {
+          automaticAppDiscount {
+            discountId
+          }
+          userErrors {
+            field
+            message
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        discount: {
+          title: "Cart upsell offers",
+          functionHandle: DISCOUNT_FUNCTION_HANDLE,
+          discountClasses: ["PRODUCT"],
+          startsAt: new Date().toISOString(),
+          combinesWith: {
+            orderDiscounts: true,
+            productDiscounts: false,
+            shippingDiscounts: true,
+          },
+          metafields: [
+            {
+              namespace: DISCOUNT_METAFIELD_NAMESPACE,
+              key: DISCOUNT_METAFIELD_KEY,
+              type: "json",
+              value,
+            },
+          ],
+        },
+      },
+    }
+  );
+  const data = await response.json();
+  const result = data.data?.discountAutomaticAppCreate;
+
+  if (!result?.automaticAppDiscount) {
+    throw new Error(
+      `Failed to create upsell discount: ${JSON.stringify(
+        result?.userErrors || data.errors || "no data"
+      )}`
+    );
+  }
+
+  await prisma.shop.update({
+    where: { id: shopId },
+    data: {
+      upsellDiscountId: result.automaticAppDiscount.discountId,
+      upsellDiscountSyncedAt: now,
+    },
+  });
+}
+
+/**
+ * Republish the function's configuration if a gift rule's start or end date
+ * has passed since it was last written
+ *
+ * @returns Whether the configuration was republished
+ * @throws If the Admin API rejects the discount or metafield
+ */
+export async function syncGiftSchedules(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  now: Date = new Date()
+): Promise<boolean> {
+  const shop = await prisma.shop.findUniqueOrThrow({
+    where: { id: shopId },
+    select: { upsellDiscountSyncedAt: true },
+  });
+  const since = shop.upsellDiscountSyncedAt ?? new Date(0);
+
+  const passed = await prisma.rule.count({
+    where: {
+      shopId,
+      type: "GIFT",
+      isEnabled: true,
+      OR: [
+        { startsAt: { gt: since, lte: now } },
+        { endsAt: { gt: since, lte: now } },
+      ],
+    },
+  });
+  if (passed === 0) return false;
+
+  await syncUpsellDiscount(admin, shopId, now);
+  return true;
+}
@@ -0,0 +1,123 @@
+import { prisma } from "./db.server";
+
+/**
+ * Upsell Experiments
+ *
+ * A rule with experimentStartedAt set A/B tests its upsell products: each
+ * upsell is an arm, and every session is shown exactly one arm, picked from
+ * a hash of the session ID so it stays the same across page views. Arms are
+ * compared on the impressions and conversions tracked for their product
+ * since the experiment started.
+ */
+
+// Below this many impressions per arm, significance isn't reported
+const MIN_ARM_IMPRESSIONS = 30;
+
+/**
+ * Hash a string to a number in [0, 1) (32-bit FNV-1a)
+ */
+function hashToUnit(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0) / 0x100000000;
+}
+
+/**
+ * Pick the arm a session sees, in proportion to the arms' traffic weights
+ *
+ * @param key - Stable per session and rule, e.g. "<sessionId>:<ruleId>"
+ */
+export function chooseExperimentArm<T extends { trafficWeight: number }>(
+  arms: T[],
+  key: string
+): T {
+  const total = arms.reduce((sum, arm) => sum + Math.max(arm.trafficWeight, 0), 0);
+  let point = hashToUnit(key) * total;
+
+  for (const arm of arms) {
+    point -= Math.max(arm.trafficWeight, 0);
+    if (point < 0) return arm;
+  }
+  return arms[arms.length - 1];
+}
+
+// Standard normal cumulative distribution (Abramowitz & Stegun 7.1.26)
+function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const erf =
+    1 -
+    ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t +
+      0.254829592) *
+      t *
+      Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * Estimate how likely the difference between two arms' conversion rates is
+ * real rather than chance (two-proportion z-test)
+ *
+ * @returns Confidence from 0 to 1 (1 - two-sided p-value), or null if
+ * either arm has too few impressions to tell
+ */
+export function getSignificance(
+  arm: { impressions: number; conversions: number },
+  control: { impressions: number; conversions: number }
+): number | null {
+  if (arm.impressions < MIN_ARM_IMPRESSIONS || control.impressions < MIN_ARM_IMPRESSIONS) {
+    return null;
+  }
+
+  const pooled =
+    (arm.conversions + control.conversions) / (arm.impressions + control.impressions);
+  const standardError = Math.sqrt(
+    pooled * (1 - pooled) * (1 / arm.impressions + 1 / control.impressions)
+  );
+
+  if (standardError === 0) return 0;
+
+  const z =
+    (arm.conversions / arm.impressions - control.conversions / control.impressions) /
+    standardError;
+  return 1 - 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * End a rule's experiment, keeping only the winning upsell
+ *
+ * @returns False if the rule isn't an experiment or has no such upsell
+ */
+export async function promoteExperimentWinner(
+  shopId: string,
+  ruleId: string,
+  productId: string
+): Promise<boolean> {
+  const rule = await prisma.rule.findFirst({
+    where: { id: ruleId, shopId, experimentStartedAt: { not: null } },
+    include: { upsells: true },
+  });
+
+  if (!rule || !rule.upsells.some((upsell) => upsell.productId === productId)) {
+    return false;
+  }
+
+  await prisma.$transaction([
+    prisma.ruleUpsell.deleteMany({
+      where: { ruleId, productId: { not: productId } },
+    }),
+    prisma.ruleUpsell.updateMany({
+      where: { ruleId, productId },
+      data: { position: 0 },
+    }),
+    prisma.rule.update({
+      where: { id: ruleId },
+      data: { experimentStartedAt: null },
+    }),
+  ]);
+
+  return true;
+}
@@ -0,0 +1,89 @@
+import type { Prisma, RuleUpsell } from "@prisma/client";
+import type { AdminGraphqlClient } from "./collections.server";
+import type { RuleConditionsInput, RuleGiftInput } from "./rules";
+import { buildUpsellsCreate, type RuleWithUpsells } from "./upsells.server";
+
+/**
+ * Gift Rules
+ *
+ * A GIFT rule adds a free gift variant to the cart while its conditions are
+ * met, e.g. "spend $100, get the tote free", and removes it once they no
+ * longer are. The gift is stored as the rule's only upsell. The widget adds
+ * and removes the gift line, marked with the rule's line property, and the
+ * upsell-discount function prices one unit of it to zero at checkout.
+ *
+ * The function only sees the cart, so it can only check the rule's minimum
+ * cart value. Gift rules therefore need one, or anyone could add the gift
+ * with the line property and get it free.
+ *
+ * Gifts rely on the discount function, so like discounts they're a paid
+ * feature.
+ */
+
+// Line item property the widget sets on gifts it adds
+export const GIFT_RULE_PROPERTY = "_gift_rule_id";
+
+/**
+ * Read the gift variant submitted by the rule forms
+ *
+ * @returns The gift, or null if none was picked
+ */
+export function parseGiftInput(formData: FormData): RuleGiftInput | null {
+  const productId = String(formData.get("giftProductId") || "").trim();
+  const variantId = String(formData.get("giftVariantId") || "").trim();
+
+  return productId && variantId ? { productId, variantId } : null;
+}
+
+/**
+ * A gift rule's gift variant in input form
+ */
+export function toGiftInput(rule: RuleWithUpsells): RuleGiftInput | null {
+  const [upsell] = rule.upsells;
+  return upsell?.variantId
+    ? { productId: upsell.productId, variantId: upsell.variantId }
+    : null;
+}
+
+/**
+ * Build nested create input for a gift rule's upsell
+ *
+ * @throws If the product snapshot can't be fetched
+ */
+export async function buildGiftUpsellCreate(
+  admin: AdminGraphqlClient,
+  gift: RuleGiftInput,
+  existing: RuleUpsell[] = []
+): Promise<Prisma.RuleUpsellCreateWithoutRuleInput[]> {
+  const [upsell] = await buildUpsellsCreate(admin, [gift.productId], existing);
+  return [{ ...upsell, variantId: gift.variantId }];
+}
+
+/**
+ * The cart subtotal below which a rule's conditions can't match, if any
+ *
+ * That's the highest minimum of the CART_VALUE conditions every match
+ * depends on. It's shown as the gift's milestone in the progress bar, and
+ * checked by the discount function before pricing the gift to zero. Gift
+ * rules without one can't be saved and never add their gift.
+ */
+export function getGiftThreshold(conditions: RuleConditionsInput): number | null {
+  const groups = conditions.groups.filter((group) => group.conditions.length > 0);
+
+  // With "any" groups, no single group is needed for a match
+  if (conditions.operator === "OR" && groups.length > 1) return null;
+
+  let threshold: number | null = null;
+  for (const group of groups) {
+    if (group.operator === "OR" && group.conditions.length > 1) continue;
+
+    for (const condition of group.conditions) {
+      if (condition.type !== "CART_VALUE" || condition.negate) continue;
+      const minSubtotal = Number(condition.minSubtotal);
+      if (!condition.minSubtotal || !(minSubtotal > 0)) continue;
+
+      threshold = Math.max(threshold ?? 0, minSubtotal);
+    }
+  }
+  return threshold;
+}
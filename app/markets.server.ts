@@ -0,0 +1,144 @@
+import type { AdminGraphqlClient } from "./collections.server";
+import type { MarketCurrency } from "./milestones";
+import type { MarketOption } from "./rules";
+
+/**
+ * Markets (Server)
+ *
+ * Shopify Markets lookup for the rule forms' country restrictions and the
+ * settings page's per-currency milestone thresholds. Rules store plain ISO
+ * country codes and milestones plain currency codes, so the storefront never
+ * needs the Markets API; markets only group countries and currencies in the
+ * forms.
+ */
+
+// Market fields as returned by the Admin API
+interface ShopifyMarketNode {
+  id: string;
+  name: string;
+  conditions?: {
+    regionsCondition?: {
+      regions?: {
+        nodes: { name: string; code?: string }[];
+      };
+    } | null;
+  } | null;
+}
+
+/**
+ * Fetch the shop's markets with the countries each one covers
+ *
+ * @returns Markets, or an empty list if they can't be loaded (the form
+ * then falls back to entering country codes)
+ */
+export async function fetchMarkets(admin: AdminGraphqlClient): Promise<MarketOption[]> {
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        query getMarkets {
+          markets(first: 50) {
+            nodes {
+              id
+              name
+              conditions {
+                regionsCondition {
+                  regions(first: 250) {
+                    nodes {
+                      name
+                      ... on MarketRegionCountry {
+                        code
+                      }
+                    }
+                  }
+                }
+              }
+            }
+          }
+        }
+      `
+    );
+
+    const data = await response.json();
+    const nodes: ShopifyMarketNode[] = data.data?.markets?.nodes || [];
+
+    return nodes
+      .map((market) => ({
+        id: market.id,
+        name: market.name,
+        countries: (market.conditions?.regionsCondition?.regions?.nodes || [])
+          .filter((region): region is { name: string; code: string } => !!region.code)
+          .map((region) => ({ code: region.code, name: region.name })),
+      }))
+      .filter((market) => market.countries.length > 0);
+  } catch (error) {
+    console.error("Error fetching markets:", error);
+    return [];
+  }
+}
+
+/**
+ * Read the country codes submitted by the rule forms
+ *
+ * Accepts repeated "countryCodes" fields from the market checkboxes as well
+ * as comma-separated codes from the fallback text field.
+ */
+export function parseCountryCodes(formData: FormData): string[] {
+  const codes = formData
+    .getAll("countryCodes")
+    .flatMap((value) => String(value).split(","))
+    .map((code) => code.trim().toUpperCase())
+    .filter((code) => /^[A-Z]{2}$/.test(code));
+
+  return [...new Set(codes)].sort();
+}
+
+/**
+ * Fetch the currencies the shop's markets sell in, other than the shop's own
+ *
+ * @returns Currencies with the markets using each, or an empty list if they
+ * can't be loaded
+ */
+export async function fetchMarketCurrencies(
+  admin: AdminGraphqlClient,
+  shopCurrency: string
+): Promise<MarketCurrency[]> {
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        query getMarketCurrencies {
+          markets(first: 50) {
+            nodes {
+              name
+              currencySettings {
+                baseCurrency {
+                  currencyCode
+                }
+              }
+            }
+          }
+        }
+      `
+    );
+
+    const data = await response.json();
+    const nodes: {
+      name: string;
+      currencySettings?: { baseCurrency?: { currencyCode: string } | null } | null;
+    }[] = data.data?.markets?.nodes || [];
+
+    const currencies = new Map<string, string[]>();
+    for (const market of nodes) {
+      const code = market.currencySettings?.baseCurrency?.currencyCode;
+      if (!code || code === shopCurrency) continue;
+
+      currencies.set(code, [...(currencies.get(code) || []), market.name]);
+    }
+
+    return [...currencies]
+      .map(([currencyCode, markets]) => ({ currencyCode, markets }))
+      .sort((a, b) => a.currencyCode.localeCompare(b.currencyCode));
+  } catch (error) {
+    console.error("Error fetching market currencies:", error);
+    return [];
+  }
+}
@@ -0,0 +1,206 @@
+import type {
+  MilestoneCurrencyThreshold,
+  Prisma,
+  ProgressMilestone,
+} from "@prisma/client";
+import {
+  MAX_PROGRESS_MILESTONES,
+  MILESTONE_ICONS,
+  type ProgressMilestoneInput,
+} from "./milestones";
+
+/**
+ * Progress Milestones (Server)
+ *
+ * Reading, checking and loading the shop's progress bar milestones. The
+ * storefront shipping endpoint serves them to the widget in the buyer's
+ * presentment currency, and the widget merges in gift rules' milestones.
+ */
+
+// Longest milestone message, so the bar's message fits on a line or two
+export const MAX_MILESTONE_MESSAGE_LENGTH = 60;
+
+// Form fields holding the milestones' thresholds in another currency
+const CURRENCY_THRESHOLD_FIELD = /^milestoneThresholds\.([A-Z]{3})$/;
+
+// Prisma include for loading a shop's milestones, lowest threshold first
+export const progressMilestonesInclude = {
+  progressMilestones: {
+    orderBy: { threshold: "asc" },
+    include: { currencyThresholds: true },
+  },
+} satisfies Prisma.ShopInclude;
+
+/**
+ * Milestone as served to the widget, in one currency
+ */
+export interface StorefrontMilestone {
+  threshold: number;
+  message: string;
+  icon: string;
+}
+
+/**
+ * A shop's milestones in input form
+ */
+export function toProgressMilestonesInput(
+  milestones: Array<ProgressMilestone & { currencyThresholds: MilestoneCurrencyThreshold[] }>
+): ProgressMilestoneInput[] {
+  return milestones.map((milestone) => ({
+    threshold: Number(milestone.threshold),
+    currencyThresholds: Object.fromEntries(
+      milestone.currencyThresholds.map((currencyThreshold) => [
+        currencyThreshold.currencyCode,
+        Number(currencyThreshold.threshold),
+      ])
+    ),
+    message: milestone.message,
+    icon: milestone.icon,
+  }));
+}
+
+/**
+ * Build nested create input for the shop's milestones
+ */
+export function buildProgressMilestonesCreate(
+  milestones: ProgressMilestoneInput[]
+): Prisma.ProgressMilestoneCreateWithoutShopInput[] {
+  return milestones.map((milestone) => ({
+    threshold: milestone.threshold,
+    message: milestone.message,
+    icon: milestone.icon,
+    currencyThresholds: {
+      create: Object.entries(milestone.currencyThresholds).map(
+        ([currencyCode, threshold]) => ({ currencyCode, threshold })
+      ),
+    },
+  }));
+}
+
+/**
+ * Read the milestones submitted by the settings form as matching
+ * "milestoneThresholds", "milestoneMessages" and "milestoneIcons" fields,
+ * plus a "milestoneThresholds.<currency>" field per market currency that's
+ * left empty to convert the shop-currency threshold
+ *
+ * @returns Milestones sorted by threshold, or null if a field is missing
+ */
+export function parseProgressMilestones(formData: FormData): ProgressMilestoneInput[] | null {
+  const thresholds = formData
+    .getAll("milestoneThresholds")
+    .map((value) => (String(value).trim() ? Number(value) : NaN));
+  const messages = formData.getAll("milestoneMessages").map((value) => String(value).trim());
+  const icons = formData.getAll("milestoneIcons").map((value) => String(value));
+
+  if (thresholds.length !== messages.length || thresholds.length !== icons.length) {
+    return null;
+  }
+
+  const currencyCodes = [...new Set(formData.keys())]
+    .map((key) => key.match(CURRENCY_THRESHOLD_FIELD)?.[1])
+    .filter((code): code is string => !!code);
+
+  const currencyValues = new Map<string, string[]>();
+  for (const code of currencyCodes) {
+    const values = formData.getAll(`milestoneThresholds.${code}`).map((value) => String(value).trim());
+    if (values.length !== thresholds.length) return null;
+    currencyValues.set(code, values);
+  }
+
+  const milestones = thresholds.map((threshold, index) => ({
+    threshold,
+    currencyThresholds: Object.fromEntries(
+      [...currencyValues]
+        .filter(([, values]) => values[index])
+        .map(([code, values]) => [code, Number(values[index])])
+    ),
+    message: messages[index],
+    icon: icons[index],
+  }));
+  return milestones.sort((a, b) => a.threshold - b.threshold);
+}
+
+/**
+ * Check the shop's milestones
+ *
+ * @returns Error message, or null if valid
+ */
+export function validateProgressMilestones(
+  milestones: ProgressMilestoneInput[] | null
+): string | null {
+  if (!milestones) return "Each milestone needs a threshold, a message and an icon.";
+
+  if (milestones.length > MAX_PROGRESS_MILESTONES) {
+    return `Add at most ${MAX_PROGRESS_MILESTONES} milestones.`;
+  }
+  if (milestones.some((milestone) => !Number.isFinite(milestone.threshold) || milestone.threshold <= 0)) {
+    return "Milestone thresholds must be greater than 0.";
+  }
+  if (new Set(milestones.map((milestone) => milestone.threshold)).size !== milestones.length) {
+    return "Each milestone needs a different threshold.";
+  }
+  if (
+    milestones.some((milestone) =>
+      Object.values(milestone.currencyThresholds).some(
+        (threshold) => !Number.isFinite(threshold) || threshold <= 0
+      )
+    )
+  ) {
+    return "Currency thresholds must be greater than 0, or empty to convert automatically.";
+  }
+  if (milestones.some((milestone) => !milestone.message)) {
+    return "Enter a message for each milestone.";
+  }
+  if (milestones.some((milestone) => milestone.message.length > MAX_MILESTONE_MESSAGE_LENGTH)) {
+    return `Milestone messages can be at most ${MAX_MILESTONE_MESSAGE_LENGTH} characters.`;
+  }
+
+  const icons: string[] = MILESTONE_ICONS.map((option) => option.icon);
+  if (milestones.some((milestone) => milestone.icon && !icons.includes(milestone.icon))) {
+    return "Pick one of the listed milestone icons.";
+  }
+  return null;
+}
+
+/**
+ * The shop's milestones in a buyer's presentment currency
+ *
+ * Each milestone uses its threshold for that currency if the merchant set
+ * one, and otherwise its shop-currency threshold converted at the
+ * storefront's exchange rate. Without a usable rate, only milestones with a
+ * threshold for the currency are kept, so the bar never compares a cart
+ * total with an amount in another currency.
+ *
+ * @param rate - Presentment currency units per shop currency unit
+ * @returns Milestones, lowest threshold first, with the currency they're in
+ */
+export function resolveProgressMilestones(
+  milestones: ProgressMilestoneInput[],
+  shopCurrency: string,
+  currency: string | null,
+  rate: number | null
+): { currency: string; milestones: StorefrontMilestone[] } {
+  if (!currency || currency === shopCurrency) {
+    return {
+      currency: shopCurrency,
+      milestones: milestones.map(({ threshold, message, icon }) => ({ threshold, message, icon })),
+    };
+  }
+
+  const canConvert = rate !== null && Number.isFinite(rate) && rate > 0;
+  const resolved: StorefrontMilestone[] = [];
+
+  for (const { threshold, currencyThresholds, message, icon } of milestones) {
+    const currencyThreshold = currencyThresholds[currency];
+    if (currencyThreshold !== undefined) {
+      resolved.push({ threshold: currencyThreshold, message, icon });
+    } else if (canConvert) {
+      resolved.push({ threshold: Math.round(threshold * rate * 100) / 100, message, icon });
+    }
+  }
+
+  return {
+    currency,
+    milestones: resolved.sort((a, b) => a.threshold - b.threshold),
+  };
+}
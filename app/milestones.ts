@@ -0,0 +1,51 @@
+/**
+ * Progress Milestones (Client-safe)
+ *
+ * Cart subtotals the progress bar counts towards, e.g. free shipping at $50
+ * and 10% off at $150. The bar has one segment per milestone and its message
+ * names the next one the cart hasn't reached. Milestones are display only;
+ * the merchant sets up the shipping rate or discount they describe.
+ *
+ * Thresholds are in the shop's currency. Buyers checking out in another
+ * currency through Markets see the milestone's threshold for that currency
+ * if the merchant set one, e.g. because a market's free shipping rate starts
+ * at €45, and the converted shop-currency threshold otherwise.
+ */
+
+export const MAX_PROGRESS_MILESTONES = 5;
+
+// Icons offered in the settings form
+export const MILESTONE_ICONS = [
+  { icon: "🚚", label: "Delivery truck" },
+  { icon: "🎁", label: "Gift" },
+  { icon: "🏷️", label: "Price tag" },
+  { icon: "💸", label: "Money" },
+  { icon: "⭐", label: "Star" },
+  { icon: "🎉", label: "Party popper" },
+] as const;
+
+/**
+ * Progress milestone as edited in the settings form
+ */
+export interface ProgressMilestoneInput {
+  threshold: number; // Cart subtotal, in shop currency
+  currencyThresholds: Record<string, number>; // By currency code; others are converted
+  message: string; // e.g. "free shipping"
+  icon: string; // One of MILESTONE_ICONS, or empty for none
+}
+
+// Starting point for a shop without milestones
+export const DEFAULT_MILESTONE: ProgressMilestoneInput = {
+  threshold: 50,
+  currencyThresholds: {},
+  message: "free shipping",
+  icon: "🚚",
+};
+
+/**
+ * A presentment currency of the shop's markets
+ */
+export interface MarketCurrency {
+  currencyCode: string; // ISO 4217, e.g. "EUR"
+  markets: string[]; // Names of the markets selling in it
+}
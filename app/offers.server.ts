@@ -0,0 +1,942 @@
+import type {
+  Condition,
+  ConditionGroup,
+  QuantityTier,
+  RecommendationIntent,
+  RuleUpsell,
+} from "@prisma/client";
+import { prisma } from "./db.server";
+import { getCollectionMembership } from "./collections.server";
+import {
+  getRuleDiscount,
+  quantityTiersInclude,
+  toQuantityTiersInput,
+} from "./discounts.server";
+import { chooseExperimentArm } from "./experiments.server";
+import { getGiftThreshold } from "./gifts.server";
+import {
+  conditionGroupsInclude,
+  toConditionsInput,
+  type RuleWithConditions,
+} from "./conditions.server";
+import {
+  getProductAttributes,
+  normalizeAttribute,
+  type ProductAttributeValues,
+  type ProductSnapshot,
+  type VariantSnapshot,
+} from "./products.server";
+import {
+  fetchRecommendedProducts,
+  getFallbackRule,
+} from "./recommendations.server";
+import { scoreRules, toRuleStats } from "./ranking.server";
+import {
+  applyDiscount,
+  MAX_OFFERS_LIMIT,
+  type QuantityTierInput,
+  type RuleDiscountInput,
+} from "./rules";
+import { getScheduleState } from "./schedules";
+import { getViewerHistory, type ViewerHistory } from "./tracking.server";
+import { upsellsInclude, type RuleWithUpsells } from "./upsells.server";
+
+/**
+ * Offer Resolution Engine
+ *
+ * Single place where storefront carts are matched against upsell rules.
+ * Used by both the app proxy (apps.proxy.upsells) and the direct storefront
+ * endpoint (api.storefront.upsells) so every trigger type behaves the same
+ * no matter how the theme reaches the app.
+ */
+
+/**
+ * Who is viewing the cart, as known to the theme's Liquid
+ */
+export interface CustomerContext {
+  id: string | null; // Numeric customer ID, null for guests
+  tags: string[]; // Lowercased customer tags
+  firstVisit: boolean; // First browsing session in this browser
+}
+
+export interface CartContext {
+  productIds: string[]; // Numeric product IDs in cart
+  variantIds: string[]; // Numeric variant IDs in cart
+  quantities: Record<string, number>; // Total quantity per numeric product ID
+  subtotal: number | null; // Cart total without gifts, converted to shop currency (major units)
+  currencyRate: number | null; // Presentment currency units per shop currency unit; null if unknown
+  cartToken: string | null;
+  sessionId: string | null; // Widget session ID, for dismissals and frequency caps
+  country: string | null; // Visitor's ISO country code from the theme's localization
+  customer: CustomerContext;
+  maxOffers: number | null; // Theme block's offer limit; null = the shop's
+}
+
+export interface Offer {
+  ruleId: string;
+  product: {
+    id: string;
+    variantId: string;
+    title: string;
+    image: string | null;
+    price: string;
+    compareAtPrice: string | null;
+    available: boolean;
+  };
+  // Checkout discount for the upsell when the widget adds it
+  discount: (RuleDiscountInput & { price: string }) | null; // Discounted price in cents
+  // Volume offers: quantities the widget can add at once
+  tiers: (QuantityTierInput & { price: string })[]; // Discounted unit price in cents
+}
+
+/**
+ * A free gift the widget keeps in the cart while its rule matches
+ */
+export interface Gift {
+  ruleId: string;
+  product: Offer["product"];
+}
+
+/**
+ * A gift rule's cart subtotal threshold, for the progress bar
+ */
+export interface GiftMilestone {
+  ruleId: string;
+  title: string; // Gift product title
+  threshold: number; // Cart subtotal without gifts, in the cart's presentment currency
+  reached: boolean;
+}
+
+/**
+ * Machine-readable reason a rule was offered or skipped
+ */
+export type ExplanationReason =
+  | "CONDITIONS_MATCHED"
+  | "FALLBACK_RECOMMENDED" // Shopify recommendations filled empty slots
+  | "CONDITIONS_NOT_MET"
+  | "AUDIENCE_NOT_MATCHED" // Customer isn't in the rule's audience
+  | "MARKET_NOT_MATCHED" // Visitor's country isn't one of the rule's countries
+  | "OUTSIDE_SCHEDULE" // Before startsAt, after endsAt or outside the weekly window
+  | "EXCLUDED" // Cart contains an excluded product, collection member or tag
+  | "FREQUENCY_CAPPED" // Visitor has seen the rule as often as its caps allow
+  | "DISMISSED" // Visitor dismissed every upsell of the rule
+  | "UPSELL_ALREADY_IN_CART" // Every upsell is in the cart or already offered
+  | "OFFER_LIMIT_REACHED"
+  | "GIFT_UNAVAILABLE" // The gift variant no longer exists
+  | "GIFT_WITHOUT_THRESHOLD" // No minimum cart value the discount function can check
+  | "EXCLUSIVE_RULE_OFFERED"; // Another rule's exclusive offers replaced this one's
+
+export interface RuleExplanation {
+  ruleId: string;
+  offered: boolean;
+  reason: ExplanationReason;
+  groupResults: boolean[]; // Whether each condition group matched, in order
+  offeredProductIds: string[]; // Upsell product GIDs offered for this rule
+}
+
+export interface OfferResolution {
+  offers: Offer[];
+  gifts: Gift[];
+  giftMilestones: GiftMilestone[];
+  explanations: RuleExplanation[];
+}
+
+/**
+ * Parse the cart description sent by the widget
+ */
+export function parseCartContext(params: URLSearchParams): CartContext {
+  const parseIds = (name: string) =>
+    (params.get(name) || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+  // The widget sends the subtotal in the buyer's presentment currency, with
+  // the storefront's exchange rate from the shop's currency. Without a
+  // rate, the cart is taken to be in the shop's currency.
+  const presentmentSubtotal = parseFloat(params.get("subtotal") || "");
+  const rate = parseFloat(params.get("rate") || "");
+  const currencyRate = Number.isFinite(rate) && rate > 0 ? rate : null;
+  const subtotal = presentmentSubtotal / (currencyRate ?? 1);
+  const maxOffers = parseInt(params.get("maxOffers") || "", 10);
+
+  // Quantities are sent per line item, in the same order as products;
+  // carts from older widgets count as one of each
+  const productIds = parseIds("products");
+  const lineQuantities = parseIds("quantities").map((value) => parseInt(value, 10));
+  const quantities: Record<string, number> = {};
+  productIds.forEach((productId, index) => {
+    const quantity = lineQuantities[index];
+    quantities[productId] =
+      (quantities[productId] || 0) + (quantity > 0 ? quantity : 1);
+  });
+
+  return {
+    productIds,
+    variantIds: parseIds("variants"),
+    quantities,
+    subtotal: isNaN(subtotal) ? null : subtotal,
+    currencyRate,
+    cartToken: params.get("cartToken") || null,
+    sessionId: params.get("sessionId") || null,
+    country: (params.get("country") || "").trim().toUpperCase() || null,
+    customer: {
+      id: params.get("customerId") || null,
+      tags: parseIds("customerTags").map(normalizeAttribute),
+      firstVisit: params.get("firstVisit") === "1",
+    },
+    // 0 or missing means the block uses the shop's setting
+    maxOffers: maxOffers > 0 ? Math.min(maxOffers, MAX_OFFERS_LIMIT) : null,
+  };
+}
+
+// A rule with everything needed to match it and build its offers
+type ResolvableRule = RuleWithConditions &
+  RuleWithUpsells & { quantityTiers: QuantityTier[] };
+
+/**
+ * Extract numeric ID from a Shopify product GID
+ */
+export function extractProductId(gid: string | null): string | null {
+  if (!gid) return null;
+  const match = gid.match(/gid:\/\/shopify\/Product\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Extract numeric ID from a Shopify variant GID
+ */
+export function extractVariantId(gid: string | null): string | null {
+  if (!gid) return null;
+  const match = gid.match(/gid:\/\/shopify\/ProductVariant\/(\d+)/);
+  return match ? match[1] : null;
+}
+
+/**
+ * Per-request lookups shared by all rules being evaluated
+ */
+interface MatchContext {
+  cart: CartContext;
+  getProductCollections: (productId: string) => Promise<string[]>;
+  getProductAttributes: () => Promise<Map<string, ProductAttributeValues>>;
+}
+
+/**
+ * Check whether the cart holds at least the condition's minimum quantity
+ * (1 if unset) of the given products combined
+ */
+function meetsMinQuantity(
+  condition: Condition,
+  ctx: MatchContext,
+  productIds: string[]
+): boolean {
+  const total = [...new Set(productIds)].reduce(
+    (sum, productId) => sum + (ctx.cart.quantities[productId] || 0),
+    0
+  );
+  return total > 0 && total >= (condition.minQuantity ?? 1);
+}
+
+/**
+ * Check whether enough cart products have the given tag, vendor or
+ * product type
+ */
+async function matchesAttribute(
+  condition: Condition,
+  ctx: MatchContext,
+  pick: (attributes: ProductAttributeValues) => string[]
+): Promise<boolean> {
+  if (!condition.value) return false;
+
+  const expected = normalizeAttribute(condition.value);
+  const attributes = await ctx.getProductAttributes();
+
+  const matching = ctx.cart.productIds.filter((productId) => {
+    const productAttributes = attributes.get(productId);
+    return (
+      !!productAttributes &&
+      pick(productAttributes).some((value) => normalizeAttribute(value) === expected)
+    );
+  });
+  return meetsMinQuantity(condition, ctx, matching);
+}
+
+/**
+ * Check whether a single trigger condition is satisfied by the cart
+ * (before applying the condition's NOT flag)
+ */
+async function matchesCondition(
+  condition: Condition,
+  ctx: MatchContext
+): Promise<boolean> {
+  switch (condition.type) {
+    case "PRODUCT": {
+      const triggerNumericId = extractProductId(condition.productId);
+      return !!triggerNumericId && meetsMinQuantity(condition, ctx, [triggerNumericId]);
+    }
+
+    case "VARIANT": {
+      const triggerNumericId = extractVariantId(condition.variantId);
+      return !!triggerNumericId && ctx.cart.variantIds.includes(triggerNumericId);
+    }
+
+    case "COLLECTION": {
+      if (!condition.collectionId) return false;
+
+      // Count cart products that belong to the trigger collection
+      const matching: string[] = [];
+      for (const productId of ctx.cart.productIds) {
+        const productCollections = await ctx.getProductCollections(productId);
+        if (productCollections.includes(condition.collectionId)) {
+          matching.push(productId);
+        }
+      }
+      return meetsMinQuantity(condition, ctx, matching);
+    }
+
+    case "TAG":
+      return matchesAttribute(condition, ctx, (attributes) => attributes.tags);
+
+    case "VENDOR":
+      return matchesAttribute(condition, ctx, (attributes) =>
+        attributes.vendor ? [attributes.vendor] : []
+      );
+
+    case "PRODUCT_TYPE":
+      return matchesAttribute(condition, ctx, (attributes) =>
+        attributes.productType ? [attributes.productType] : []
+      );
+
+    case "CART_VALUE": {
+      const { subtotal } = ctx.cart;
+      if (subtotal === null) return false;
+
+      const min = condition.minSubtotal;
+      const max = condition.maxSubtotal;
+      return (
+        (min === null || subtotal >= min.toNumber()) &&
+        (max === null || subtotal <= max.toNumber())
+      );
+    }
+
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a condition group with its AND/OR operator
+ */
+async function matchesGroup(
+  group: ConditionGroup & { conditions: Condition[] },
+  ctx: MatchContext
+): Promise<boolean> {
+  if (group.conditions.length === 0) return false;
+
+  for (const condition of group.conditions) {
+    const met = (await matchesCondition(condition, ctx)) !== condition.negate;
+
+    if (group.operator === "OR" && met) return true;
+    if (group.operator === "AND" && !met) return false;
+  }
+
+  return group.operator === "AND";
+}
+
+/**
+ * Check whether the customer viewing the cart is in the rule's audience
+ */
+function matchesAudience(rule: ResolvableRule, customer: CustomerContext): boolean {
+  switch (rule.audience) {
+    case "FIRST_TIME":
+      return customer.firstVisit;
+
+    case "GUESTS":
+      return !customer.id;
+
+    case "CUSTOMERS":
+      return (
+        !!customer.id &&
+        (rule.audienceCustomerTags.length === 0 ||
+          customer.tags.some((tag) => rule.audienceCustomerTags.includes(tag)))
+      );
+
+    default:
+      return true;
+  }
+}
+
+/**
+ * Check whether the visitor has reached one of the rule's impression caps
+ */
+function isFrequencyCapped(rule: ResolvableRule, history: ViewerHistory): boolean {
+  const reached = (cap: number | null, counts: Map<string, number>) =>
+    cap !== null && (counts.get(rule.id) || 0) >= cap;
+
+  return (
+    reached(rule.maxImpressionsPerSession, history.sessionImpressions) ||
+    reached(rule.maxImpressionsPerCustomer, history.customerImpressions)
+  );
+}
+
+/**
+ * Check whether the cart hits any of the rule's exclusion lists
+ */
+async function isExcluded(
+  rule: RuleWithConditions,
+  ctx: MatchContext
+): Promise<boolean> {
+  const excludedProductIds = rule.excludedProductIds
+    .map(extractProductId)
+    .filter(Boolean);
+  if (ctx.cart.productIds.some((id) => excludedProductIds.includes(id))) {
+    return true;
+  }
+
+  if (rule.excludedCollectionIds.length > 0) {
+    for (const productId of ctx.cart.productIds) {
+      const productCollections = await ctx.getProductCollections(productId);
+      if (productCollections.some((id) => rule.excludedCollectionIds.includes(id))) {
+        return true;
+      }
+    }
+  }
+
+  if (rule.excludedTags.length > 0) {
+    const attributes = await ctx.getProductAttributes();
+    for (const productId of ctx.cart.productIds) {
+      const tags = attributes.get(productId)?.tags || [];
+      if (tags.some((tag) => rule.excludedTags.includes(normalizeAttribute(tag)))) {
+        return true;
+      }
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Evaluate all of a rule's condition groups
+ *
+ * Every group is evaluated (no short-circuit) so the explanation can report
+ * each group's result.
+ */
+async function evaluateConditions(
+  rule: RuleWithConditions,
+  ctx: MatchContext
+): Promise<{ matched: boolean; groupResults: boolean[] }> {
+  const groupResults: boolean[] = [];
+  for (const group of rule.conditionGroups) {
+    groupResults.push(await matchesGroup(group, ctx));
+  }
+
+  const matched =
+    groupResults.length > 0 &&
+    (rule.conditionOperator === "OR"
+      ? groupResults.some(Boolean)
+      : groupResults.every(Boolean));
+
+  return { matched, groupResults };
+}
+
+/**
+ * Normalized value of a variant's option (e.g. "Size"), if it has one
+ */
+function getOptionValue(variant: VariantSnapshot, optionName: string): string | null {
+  const expected = normalizeAttribute(optionName);
+  const option = variant.selectedOptions.find(
+    (selected) => normalizeAttribute(selected.name) === expected
+  );
+  return option ? normalizeAttribute(option.value) : null;
+}
+
+/**
+ * Values of an option on the rule's trigger variants that are in the cart
+ *
+ * Only PRODUCT and VARIANT conditions carry variant data, so rules
+ * triggered by collections, tags or cart value have nothing to match on.
+ */
+function getTriggerOptionValues(
+  rule: RuleWithConditions,
+  cart: CartContext,
+  optionName: string
+): Set<string> {
+  const values = new Set<string>();
+
+  for (const group of rule.conditionGroups) {
+    for (const condition of group.conditions) {
+      if (condition.negate) continue;
+      if (condition.type !== "PRODUCT" && condition.type !== "VARIANT") continue;
+
+      const productData = condition.productData as ProductSnapshot | null;
+      for (const variant of productData?.variants || []) {
+        if (condition.type === "VARIANT" && variant.id !== condition.variantId) {
+          continue;
+        }
+
+        const numericId = extractVariantId(variant.id);
+        const value = getOptionValue(variant, optionName);
+        if (numericId && value && cart.variantIds.includes(numericId)) {
+          values.add(value);
+        }
+      }
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Pick the variant to offer for one of a matched rule's upsells
+ *
+ * With upsellMatchOption set (e.g. "Size"), an XL shirt in the cart offers
+ * the XL variant of the upsell. Otherwise, or if nothing matches, falls back
+ * to the upsell's fixed variantId and then the default variant.
+ */
+function selectUpsellVariant(
+  rule: ResolvableRule,
+  upsell: RuleUpsell,
+  cart: CartContext
+): VariantSnapshot | null {
+  const productData = upsell.productData as ProductSnapshot | null;
+  const variants = productData?.variants || [];
+
+  if (rule.upsellMatchOption) {
+    const optionName = rule.upsellMatchOption;
+    const values = getTriggerOptionValues(rule, cart, optionName);
+    const match = variants.find((variant) => {
+      const value = getOptionValue(variant, optionName);
+      return value !== null && values.has(value);
+    });
+    if (match) return match;
+  }
+
+  return variants.find((variant) => variant.id === upsell.variantId) || null;
+}
+
+/**
+ * Format one of a matched rule's upsells as a storefront offer using cached
+ * product data
+ *
+ * @param discountsEnabled - Whether the shop's plan includes checkout
+ * discounts; without them tiers are offered at the regular price
+ */
+function toOffer(
+  rule: ResolvableRule,
+  upsell: RuleUpsell,
+  cart: CartContext,
+  discountsEnabled: boolean
+): Offer {
+  const productData = upsell.productData as ProductSnapshot | null;
+  const variant = selectUpsellVariant(rule, upsell, cart);
+  const price = variant?.price || productData?.price || "0.00";
+  const discount = discountsEnabled ? getRuleDiscount(rule) : null;
+
+  return {
+    ruleId: rule.id,
+    product: {
+      id: upsell.productId,
+      variantId: variant?.id || productData?.variantId || upsell.productId,
+      title: productData?.title || "Product",
+      image: productData?.image || null,
+      price,
+      compareAtPrice: variant
+        ? variant.compareAtPrice
+        : productData?.compareAtPrice || null,
+      available: true, // Assume available for MVP
+    },
+    discount: discount && { ...discount, price: applyDiscount(price, discount) },
+    // Tiers without savings get the flat discount, like at checkout
+    tiers: toQuantityTiersInput(rule.quantityTiers).map((tier) => {
+      const tierDiscount: RuleDiscountInput | null =
+        discountsEnabled && tier.discountPercent > 0
+          ? { type: "PERCENTAGE", value: tier.discountPercent }
+          : discount;
+
+      return {
+        quantity: tier.quantity,
+        discountPercent: discountsEnabled ? tier.discountPercent : 0,
+        price: tierDiscount ? applyDiscount(price, tierDiscount) : price,
+      };
+    }),
+  };
+}
+
+/**
+ * Check the parts of a rule that need no cart lookups: schedule, audience
+ * and market. Rules limited to countries are skipped when the country is
+ * unknown, since their products may not ship there.
+ *
+ * @returns Why the rule is skipped, or null if it may match
+ */
+function getSkipReason(
+  rule: ResolvableRule,
+  cart: CartContext,
+  timeZone: string,
+  now: Date
+): ExplanationReason | null {
+  if (getScheduleState(rule, timeZone, now) !== "ACTIVE") return "OUTSIDE_SCHEDULE";
+  if (!matchesAudience(rule, cart.customer)) return "AUDIENCE_NOT_MATCHED";
+  if (
+    rule.countryCodes.length > 0 &&
+    !(cart.country && rule.countryCodes.includes(cart.country))
+  ) {
+    return "MARKET_NOT_MATCHED";
+  }
+  return null;
+}
+
+/**
+ * Resolve a gift rule: its gift if the cart matches, and its milestone if
+ * the rule has a cart subtotal threshold the cart can reach
+ *
+ * Frequency caps and dismissals don't apply to gifts.
+ */
+async function resolveGift(
+  rule: ResolvableRule,
+  ctx: MatchContext,
+  timeZone: string,
+  now: Date
+): Promise<{
+  gift: Gift | null;
+  milestone: GiftMilestone | null;
+  explanation: RuleExplanation;
+}> {
+  const skip = (reason: ExplanationReason, groupResults: boolean[] = []) => ({
+    gift: null,
+    milestone: null,
+    explanation: {
+      ruleId: rule.id,
+      offered: false,
+      reason,
+      groupResults,
+      offeredProductIds: [],
+    },
+  });
+
+  const skipReason = getSkipReason(rule, ctx.cart, timeZone, now);
+  if (skipReason) return skip(skipReason);
+
+  // The discount function wouldn't price a gift without one to zero
+  const threshold = getGiftThreshold(toConditionsInput(rule));
+  if (threshold === null) return skip("GIFT_WITHOUT_THRESHOLD");
+
+  const { matched, groupResults } = await evaluateConditions(rule, ctx);
+
+  if (await isExcluded(rule, ctx)) return skip("EXCLUDED", groupResults);
+
+  // The widget can only add a variant the discount function will price to zero
+  const [upsell] = rule.upsells;
+  const productData = upsell?.productData as ProductSnapshot | null | undefined;
+  if (!upsell || !productData?.variants?.some((variant) => variant.id === upsell.variantId)) {
+    return skip("GIFT_UNAVAILABLE", groupResults);
+  }
+
+  const { product } = toOffer(rule, upsell, ctx.cart, false);
+
+  // A threshold is only a milestone if reaching it is all the cart needs
+  const isReachable =
+    matched ||
+    (
+      await evaluateConditions(rule, {
+        ...ctx,
+        cart: { ...ctx.cart, subtotal: Math.max(threshold, ctx.cart.subtotal ?? 0) },
+      })
+    ).matched;
+
+  return {
+    gift: matched ? { ruleId: rule.id, product } : null,
+    milestone: isReachable
+      ? {
+          ruleId: rule.id,
+          title: product.title,
+          // At the rate the cart's subtotal was converted with, which is the
+          // rate the discount function checks the threshold at
+          threshold: Math.round(threshold * (ctx.cart.currencyRate ?? 1) * 100) / 100,
+          reached: matched,
+        }
+      : null,
+    explanation: {
+      ruleId: rule.id,
+      offered: matched,
+      reason: matched ? "CONDITIONS_MATCHED" : "CONDITIONS_NOT_MET",
+      groupResults,
+      offeredProductIds: matched ? [product.id] : [],
+    },
+  };
+}
+
+/**
+ * Resolve ranked upsell offers for a shop's cart
+ *
+ * Rules are evaluated in priority order (lower number = higher priority),
+ * or by performance score when the shop uses auto-rank, with schedules
+ * checked in the shop's timezone. The first exclusive rule
+ * that can be offered replaces all other offers, including fallbacks.
+ * Matching gift rules add their gifts alongside the offers.
+ * Every enabled rule gets an explanation describing why it was offered or
+ * skipped, which is useful for debugging storefront behaviour. Explanations
+ * are only served to the admin (app.offers.explain).
+ */
+export async function resolveOffers(
+  shopDomain: string,
+  cart: CartContext
+): Promise<OfferResolution> {
+  if (cart.productIds.length === 0) {
+    return { offers: [], gifts: [], giftMilestones: [], explanations: [] };
+  }
+
+  const shop = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+  });
+
+  if (!shop) {
+    return { offers: [], gifts: [], giftMilestones: [], explanations: [] };
+  }
+
+  const rules = await prisma.rule.findMany({
+    where: {
+      shopId: shop.id,
+      isEnabled: true,
+      isFallback: false,
+      // Gifts are priced to zero by the discount function, a paid feature
+      ...(shop.currentPlan === "FREE" ? { type: "UPSELL" as const } : {}),
+    },
+    include: {
+      ...conditionGroupsInclude,
+      ...upsellsInclude,
+      ...quantityTiersInclude,
+    },
+    orderBy: [
+      { priority: "asc" }, // Lower priority number = higher priority
+      { createdAt: "asc" },
+    ],
+  });
+
+  // Auto-rank puts the best-performing rules first; priority breaks ties
+  if (shop.autoRankEnabled) {
+    const scores = scoreRules(
+      rules.map((rule) => rule.id),
+      toRuleStats(rules),
+      shop.autoRankMetric
+    );
+    rules.sort((a, b) => (scores.get(b.id) ?? 0) - (scores.get(a.id) ?? 0));
+  }
+
+  const history = await getViewerHistory(shop.id, cart.sessionId, cart.customer.id);
+
+  // Load index lookups for the whole cart at most once, and only when a
+  // rule actually needs them
+  let membership: Promise<Map<string, string[]>> | null = null;
+  let attributes: Promise<Map<string, ProductAttributeValues>> | null = null;
+  const ctx: MatchContext = {
+    cart,
+    getProductCollections: async (productId) => {
+      membership ??= getCollectionMembership(shop.id, cart.productIds);
+      return (await membership).get(productId) || [];
+    },
+    getProductAttributes: () => {
+      attributes ??= getProductAttributes(shop.id, cart.productIds);
+      return attributes;
+    },
+  };
+
+  const maxOffers = cart.maxOffers ?? shop.maxOffers;
+  const offers: Offer[] = [];
+  const gifts: Gift[] = [];
+  const giftMilestones: GiftMilestone[] = [];
+  const explanations: RuleExplanation[] = [];
+  const now = new Date();
+  let exclusiveRuleId: string | null = null;
+
+  for (const rule of rules) {
+    // Gifts take no offer slots, so exclusive rules don't replace them
+    if (rule.type === "GIFT") {
+      const resolution = await resolveGift(rule, ctx, shop.ianaTimezone, now);
+      if (resolution.gift) gifts.push(resolution.gift);
+      if (resolution.milestone) giftMilestones.push(resolution.milestone);
+      explanations.push(resolution.explanation);
+      continue;
+    }
+
+    // Nothing else is offered once an exclusive rule has been
+    if (exclusiveRuleId) {
+      explanations.push({
+        ruleId: rule.id,
+        offered: false,
+        reason: "EXCLUSIVE_RULE_OFFERED",
+        groupResults: [],
+        offeredProductIds: [],
+      });
+      continue;
+    }
+
+    // Check the schedule, audience and market first; they need no cart
+    // lookups
+    const skipReason = getSkipReason(rule, cart, shop.ianaTimezone, now);
+
+    if (skipReason) {
+      explanations.push({
+        ruleId: rule.id,
+        offered: false,
+        reason: skipReason,
+        groupResults: [],
+        offeredProductIds: [],
+      });
+      continue;
+    }
+
+    const { matched, groupResults } = await evaluateConditions(rule, ctx);
+    const explain = (
+      offered: boolean,
+      reason: ExplanationReason,
+      offeredProductIds: string[] = []
+    ) =>
+      explanations.push({
+        ruleId: rule.id,
+        offered,
+        reason,
+        groupResults,
+        offeredProductIds,
+      });
+
+    if (!matched) {
+      explain(false, "CONDITIONS_NOT_MET");
+      continue;
+    }
+
+    if (await isExcluded(rule, ctx)) {
+      explain(false, "EXCLUDED");
+      continue;
+    }
+
+    if (isFrequencyCapped(rule, history)) {
+      explain(false, "FREQUENCY_CAPPED");
+      continue;
+    }
+
+    // An experiment shows each session only the arm it was assigned
+    const upsells =
+      rule.experimentStartedAt && rule.upsells.length > 0
+        ? [
+            chooseExperimentArm(
+              rule.upsells,
+              `${cart.sessionId ?? cart.cartToken ?? ""}:${rule.id}`
+            ),
+          ]
+        : rule.upsells;
+
+    const notDismissed = upsells.filter(
+      (upsell) => !history.dismissed.has(`${rule.id}:${upsell.productId}`)
+    );
+
+    if (notDismissed.length === 0) {
+      explain(false, "DISMISSED");
+      continue;
+    }
+
+    // Don't show products already in cart, or already offered by a
+    // higher-priority rule (unless this rule's offers replace them)
+    const candidates = notDismissed.filter((upsell) => {
+      const upsellNumericId = extractProductId(upsell.productId);
+      return (
+        !(upsellNumericId && cart.productIds.includes(upsellNumericId)) &&
+        (rule.isExclusive ||
+          !offers.some((offer) => offer.product.id === upsell.productId))
+      );
+    });
+
+    if (candidates.length === 0) {
+      explain(false, "UPSELL_ALREADY_IN_CART");
+      continue;
+    }
+
+    if (rule.isExclusive) {
+      // Withdraw the offers of higher-priority rules
+      offers.length = 0;
+      for (const explanation of explanations) {
+        if (explanation.offered) {
+          explanation.offered = false;
+          explanation.reason = "EXCLUSIVE_RULE_OFFERED";
+          explanation.offeredProductIds = [];
+        }
+      }
+      exclusiveRuleId = rule.id;
+    } else if (offers.length >= maxOffers) {
+      explain(false, "OFFER_LIMIT_REACHED");
+      continue;
+    }
+
+    // Fill the remaining slots in the rule's upsell order; discounts are a
+    // paid feature
+    const ruleOffers = candidates
+      .slice(0, maxOffers - offers.length)
+      .map((upsell) => toOffer(rule, upsell, cart, shop.currentPlan !== "FREE"));
+
+    offers.push(...ruleOffers);
+    explain(
+      true,
+      "CONDITIONS_MATCHED",
+      ruleOffers.map((offer) => offer.product.id)
+    );
+  }
+
+  if (shop.fallbackEnabled && !exclusiveRuleId && offers.length < maxOffers) {
+    const fallbackRule = await getFallbackRule(shop.id);
+    const fallbackOffers = await resolveFallbackOffers(
+      shop.shopifyDomain,
+      shop.fallbackIntent,
+      shop.fallbackExcludedProductIds,
+      fallbackRule.id,
+      cart,
+      offers,
+      maxOffers,
+      history
+    );
+
+    offers.push(...fallbackOffers);
+    explanations.push({
+      ruleId: fallbackRule.id,
+      offered: fallbackOffers.length > 0,
+      reason: "FALLBACK_RECOMMENDED",
+      groupResults: [],
+      offeredProductIds: fallbackOffers.map((offer) => offer.product.id),
+    });
+  }
+
+  return { offers, gifts, giftMilestones, explanations };
+}
+
+/**
+ * Fill the slots left after rule offers with Shopify recommendations for
+ * the cart's products
+ *
+ * Skips products in the cart, already offered, on the shop's fallback
+ * exclusion list or dismissed by the visitor.
+ */
+async function resolveFallbackOffers(
+  shopDomain: string,
+  intent: RecommendationIntent,
+  excludedProductIds: string[],
+  fallbackRuleId: string,
+  cart: CartContext,
+  offers: Offer[],
+  maxOffers: number,
+  history: ViewerHistory
+): Promise<Offer[]> {
+  const cartProductGids = [...new Set(cart.productIds)].map(
+    (productId) => `gid://shopify/Product/${productId}`
+  );
+  const recommended = await fetchRecommendedProducts(shopDomain, cartProductGids, intent);
+
+  return recommended
+    .filter(
+      (product) =>
+        !cartProductGids.includes(product.id) &&
+        !excludedProductIds.includes(product.id) &&
+        !offers.some((offer) => offer.product.id === product.id) &&
+        !history.dismissed.has(`${fallbackRuleId}:${product.id}`)
+    )
+    .slice(0, maxOffers - offers.length)
+    .map((product) => ({ ruleId: fallbackRuleId, product, discount: null, tiers: [] }));
+}
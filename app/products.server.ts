@@ -0,0 +1,416 @@
+import { prisma } from "./db.server";
+import { toProductGid, type AdminGraphqlClient } from "./collections.server";
+import type { AttributeTriggerType } from "./rules";
+
+/**
+ * Product Attribute Index
+ *
+ * Local copy of each product's tags, vendor and product type, used to match
+ * TAG, VENDOR and PRODUCT_TYPE triggers. /cart.js doesn't expose tags, so the
+ * storefront can't send them; instead the index is filled on install and
+ * when rules are saved, and kept current by the products/create,
+ * products/update and products/delete webhooks and the periodic reconcile
+ * job.
+ */
+
+const PAGE_SIZE = 250;
+
+// Admin API product search field for each attribute trigger
+const ATTRIBUTE_SEARCH_FIELDS: Record<AttributeTriggerType, string> = {
+  TAG: "tag",
+  VENDOR: "vendor",
+  PRODUCT_TYPE: "product_type",
+};
+
+// Variants cached per product snapshot (enough for Shopify's default limit)
+const SNAPSHOT_VARIANTS = 100;
+
+export type SelectedOption = {
+  name: string;
+  value: string;
+};
+
+// Cached variant data used to pick an upsell variant by option value
+export type VariantSnapshot = {
+  id: string;
+  title: string;
+  price: string; // In cents
+  compareAtPrice: string | null; // In cents
+  selectedOptions: SelectedOption[];
+};
+
+// Cached product snapshot stored on upsells and conditions (e.g. RuleUpsell.productData)
+export type ProductSnapshot = {
+  title?: string;
+  image?: string | null;
+  price?: string; // In cents
+  compareAtPrice?: string | null; // In cents
+  variantId?: string | null; // Default (first) variant
+  variants?: VariantSnapshot[];
+};
+
+export interface ProductAttributeValues {
+  tags: string[];
+  vendor: string | null;
+  productType: string | null;
+}
+
+/**
+ * Normalize a tag, vendor or product type for case-insensitive matching
+ */
+export function normalizeAttribute(value: string): string {
+  return value.trim().toLowerCase();
+}
+
+/**
+ * Look up indexed attributes for cart products
+ *
+ * @param productIds - Numeric product IDs
+ * @returns Map of numeric product ID to attributes (missing if not indexed)
+ */
+export async function getProductAttributes(
+  shopId: string,
+  productIds: string[]
+): Promise<Map<string, ProductAttributeValues>> {
+  const attributes = new Map<string, ProductAttributeValues>();
+
+  if (productIds.length === 0) return attributes;
+
+  const rows = await prisma.productAttributes.findMany({
+    where: {
+      shopId,
+      productId: { in: productIds.map(toProductGid) },
+    },
+  });
+
+  for (const row of rows) {
+    const numericId = row.productId.split("/").pop() || "";
+    attributes.set(numericId, {
+      tags: row.tags,
+      vendor: row.vendor,
+      productType: row.productType,
+    });
+  }
+
+  return attributes;
+}
+
+/**
+ * Store a product's attributes (e.g. from a products/update payload)
+ */
+// Upsert one product's row; run on its own or batched in a transaction
+function upsertProductAttributes(
+  shopId: string,
+  productGid: string,
+  values: ProductAttributeValues
+) {
+  const data = {
+    tags: values.tags.map(normalizeAttribute).filter(Boolean),
+    vendor: values.vendor || null,
+    productType: values.productType || null,
+  };
+
+  return prisma.productAttributes.upsert({
+    where: { shopId_productId: { shopId, productId: productGid } },
+    create: { shopId, productId: productGid, ...data },
+    update: data,
+  });
+}
+
+export async function indexProductAttributes(
+  shopId: string,
+  productGid: string,
+  values: ProductAttributeValues
+) {
+  await upsertProductAttributes(shopId, productGid, values);
+}
+
+/**
+ * Drop a deleted product from the attribute and collection indexes
+ */
+export async function removeProductFromIndex(shopId: string, productGid: string) {
+  await prisma.$transaction([
+    prisma.productAttributes.deleteMany({
+      where: { shopId, productId: productGid },
+    }),
+    prisma.productCollection.deleteMany({
+      where: { shopId, productId: productGid },
+    }),
+  ]);
+}
+
+/**
+ * Index attributes for every product matching an Admin API product search
+ *
+ * @param query - Search query, or null for all products
+ * @returns Number of products indexed, and whether every page was read
+ */
+async function indexMatchingProducts(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  query: string | null
+) {
+  let cursor: string | null = null;
+  let hasNextPage = true;
+  let indexed = 0;
+
+  while (hasNextPage) {
+    const response = await admin.graphql(
+      `#graphql
+        query getProductAttributes($after: String, $query: String) {
+          products(first: ${PAGE_SIZE}, after: $after, query: $query) {
+            nodes {
+              id
+              tags
+              vendor
+              productType
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      `,
+      { variables: { after: cursor, query } }
+    );
+
+    const data = await response.json();
+    const products = data.data?.products;
+
+    if (!products) break;
+
+    await prisma.$transaction(
+      products.nodes.map((product: ProductAttributeValues & { id: string }) =>
+        upsertProductAttributes(shopId, product.id, {
+          tags: product.tags,
+          vendor: product.vendor,
+          productType: product.productType,
+        })
+      )
+    );
+
+    indexed += products.nodes.length;
+    hasNextPage = products.pageInfo.hasNextPage;
+    cursor = products.pageInfo.endCursor;
+  }
+
+  return { indexed, complete: !hasNextPage };
+}
+
+/**
+ * Index attributes for the products a TAG, VENDOR or PRODUCT_TYPE trigger
+ * (or a tag exclusion) matches, so a new rule works before any webhook
+ */
+export async function indexAttributeProducts(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  type: AttributeTriggerType,
+  value: string
+) {
+  const escaped = value.replace(/\\/g, "\\\\").replace(/"/g, '\\"');
+  const { indexed } = await indexMatchingProducts(
+    admin,
+    shopId,
+    `${ATTRIBUTE_SEARCH_FIELDS[type]}:"${escaped}"`
+  );
+  return indexed;
+}
+
+/**
+ * Re-index attributes for every product in the shop, then drop products the
+ * shop no longer has
+ *
+ * Every upsert touches updatedAt, so rows older than the run belong to
+ * products that weren't listed. They're only pruned after a complete run.
+ */
+export async function reconcileProductAttributes(
+  admin: AdminGraphqlClient,
+  shopId: string
+) {
+  const startedAt = new Date();
+  const { indexed, complete } = await indexMatchingProducts(admin, shopId, null);
+
+  if (complete) {
+    await prisma.productAttributes.deleteMany({
+      where: { shopId, updatedAt: { lt: startedAt } },
+    });
+  }
+
+  return indexed;
+}
+
+/**
+ * Fetch the shop's tags, vendors and product types for the rule form pickers
+ */
+export async function fetchTriggerValueOptions(admin: AdminGraphqlClient) {
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        query getTriggerValueOptions {
+          productTags(first: ${PAGE_SIZE}) {
+            nodes
+          }
+          productVendors(first: ${PAGE_SIZE}) {
+            nodes
+          }
+          productTypes(first: ${PAGE_SIZE}) {
+            nodes
+          }
+        }
+      `
+    );
+
+    const data = await response.json();
+
+    return {
+      TAG: (data.data?.productTags?.nodes || []) as string[],
+      VENDOR: (data.data?.productVendors?.nodes || []) as string[],
+      PRODUCT_TYPE: ((data.data?.productTypes?.nodes || []) as string[]).filter(
+        Boolean
+      ),
+    };
+  } catch (error) {
+    console.error("Error fetching trigger value options:", error);
+    return { TAG: [], VENDOR: [], PRODUCT_TYPE: [] };
+  }
+}
+
+// Variant fields as returned by the Admin API (prices in dollars)
+interface ShopifyVariantNode {
+  id: string;
+  title: string;
+  price: string;
+  compareAtPrice: string | null;
+  selectedOptions: SelectedOption[];
+}
+
+// Convert a price from dollars to cents for consistent storage
+function toCents(price: string | null | undefined): string | null {
+  return price ? Math.round(parseFloat(price) * 100).toString() : null;
+}
+
+/**
+ * Fetch a product's title, image and variants for caching
+ *
+ * @returns Snapshot with prices in cents, or null if the product doesn't exist
+ */
+export async function fetchProductSnapshot(
+  admin: AdminGraphqlClient,
+  productId: string
+): Promise<ProductSnapshot | null> {
+  const response = await admin.graphql(
+    `#graphql
+      query getProduct($id: ID!) {
+        product(id: $id) {
+          id
+          title
+          featuredImage {
+            url
+          }
+          variants(first: ${SNAPSHOT_VARIANTS}) {
+            edges {
+              node {
+                id
+                title
+                price
+                compareAtPrice
+                selectedOptions {
+                  name
+                  value
+                }
+              }
+            }
+          }
+        }
+      }
+    `,
+    {
+      variables: {
+        id: productId,
+      },
+    }
+  );
+
+  const data = await response.json();
+  const product = data.data?.product;
+
+  if (!product) return null;
+
+  const variants: VariantSnapshot[] = product.variants.edges.map(
+    ({ node }: { node: ShopifyVariantNode }) => ({
+      id: node.id,
+      title: node.title,
+      price: toCents(node.price) || "0",
+      compareAtPrice: toCents(node.compareAtPrice),
+      selectedOptions: node.selectedOptions,
+    })
+  );
+  const [defaultVariant] = variants;
+
+  return {
+    title: product.title,
+    image: product.featuredImage?.url || null,
+    price: defaultVariant?.price || "0",
+    compareAtPrice: defaultVariant?.compareAtPrice || null,
+    variantId: defaultVariant?.id || null,
+    variants,
+  };
+}
+
+/**
+ * Check whether a product snapshot has an option, e.g. "Size"
+ */
+export function hasProductOption(
+  snapshot: ProductSnapshot,
+  optionName: string
+): boolean {
+  const expected = normalizeAttribute(optionName);
+  return (snapshot.variants || []).some((variant) =>
+    variant.selectedOptions.some(
+      (option) => normalizeAttribute(option.name) === expected
+    )
+  );
+}
+
+/**
+ * Look up titles for product and collection GIDs (e.g. for exclusion lists)
+ *
+ * @returns Map of GID to title; deleted resources are missing
+ */
+export async function fetchResourceTitles(
+  admin: AdminGraphqlClient,
+  ids: string[]
+): Promise<Map<string, string>> {
+  const titles = new Map<string, string>();
+
+  if (ids.length === 0) return titles;
+
+  try {
+    const response = await admin.graphql(
+      `#graphql
+        query getResourceTitles($ids: [ID!]!) {
+          nodes(ids: $ids) {
+            id
+            ... on Product {
+              title
+            }
+            ... on Collection {
+              title
+            }
+          }
+        }
+      `,
+      { variables: { ids } }
+    );
+
+    const data = await response.json();
+    for (const node of data.data?.nodes || []) {
+      if (node?.title) titles.set(node.id, node.title);
+    }
+  } catch (error) {
+    console.error("Error fetching resource titles:", error);
+  }
+
+  return titles;
+}
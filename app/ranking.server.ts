@@ -0,0 +1,183 @@
+import type { RankMetric, Rule } from "@prisma/client";
+import { prisma } from "./db.server";
+
+/**
+ * Automatic Offer Ranking
+ *
+ * When a shop turns on auto-rank, matching rules are ordered by how well
+ * they performed over the last RANK_LOOKBACK_DAYS instead of by priority.
+ * Priority only breaks ties.
+ *
+ * A rule's score is its conversion rate (or revenue per impression),
+ * smoothed towards the shop-wide average so a handful of lucky impressions
+ * can't put a rule on top. Each request adds random exploration noise that
+ * shrinks as a rule collects data, so a new rule that loses once still gets
+ * shown now and then, long enough to earn a real score.
+ *
+ * Stats are aggregated by the ranking job (api.jobs.ranking) and stored on
+ * the rules, so storefront requests only read the rules they load anyway.
+ */
+
+export const RANK_LOOKBACK_DAYS = 30;
+
+// Weight of the shop-wide average, counted as this many impressions
+const PRIOR_IMPRESSIONS = 50;
+
+// Spread of the exploration noise for a rule without impressions, as a
+// share of the shop-wide average
+const EXPLORATION_SPREAD = 0.5;
+
+export interface RuleStats {
+  impressions: number;
+  conversions: number;
+  revenue: number;
+}
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function sampleNormal(random: () => number): number {
+  return Math.sqrt(-2 * Math.log(1 - random())) * Math.cos(2 * Math.PI * random());
+}
+
+/**
+ * Score rules from their stats; rules without stats get the score of a
+ * rule that hasn't been shown yet
+ *
+ * @param random - Source of exploration noise, or null for the expected
+ * scores (e.g. for display)
+ */
+export function scoreRules(
+  ruleIds: string[],
+  stats: Map<string, RuleStats>,
+  metric: RankMetric,
+  random: (() => number) | null = Math.random
+): Map<string, number> {
+  const valueOf = (ruleStats: RuleStats) =>
+    metric === "REVENUE_PER_IMPRESSION" ? ruleStats.revenue : ruleStats.conversions;
+
+  let totalImpressions = 0;
+  let totalValue = 0;
+  for (const ruleStats of stats.values()) {
+    totalImpressions += ruleStats.impressions;
+    totalValue += valueOf(ruleStats);
+  }
+  const average = totalImpressions > 0 ? totalValue / totalImpressions : 0;
+
+  const scores = new Map<string, number>();
+  for (const ruleId of ruleIds) {
+    const ruleStats = stats.get(ruleId) ?? { impressions: 0, conversions: 0, revenue: 0 };
+    const weight = PRIOR_IMPRESSIONS / (ruleStats.impressions + PRIOR_IMPRESSIONS);
+    const smoothed =
+      (valueOf(ruleStats) + average * PRIOR_IMPRESSIONS) /
+      (ruleStats.impressions + PRIOR_IMPRESSIONS);
+
+    const noise = random ? sampleNormal(random) * average * EXPLORATION_SPREAD * Math.sqrt(weight) : 0;
+    scores.set(ruleId, smoothed + noise);
+  }
+  return scores;
+}
+
+/**
+ * Auto-rank stats stored on rules by the ranking job
+ */
+export function toRuleStats(
+  rules: Pick<Rule, "id" | "rankImpressions" | "rankConversions" | "rankRevenue">[]
+): Map<string, RuleStats> {
+  return new Map(
+    rules.map((rule) => [
+      rule.id,
+      {
+        impressions: rule.rankImpressions,
+        conversions: rule.rankConversions,
+        revenue: Number(rule.rankRevenue),
+      },
+    ])
+  );
+}
+
+/**
+ * Load the shop's recent impressions, conversions and revenue per rule
+ */
+export async function getRuleStats(
+  shopId: string,
+  now = new Date()
+): Promise<Map<string, RuleStats>> {
+  const since = new Date(now.getTime() - RANK_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const groups = await prisma.analyticsEvent.groupBy({
+    by: ["ruleId", "eventType"],
+    where: {
+      shopId,
+      createdAt: { gte: since },
+      eventType: { in: ["IMPRESSION", "CONVERSION"] },
+    },
+    _count: { _all: true },
+    _sum: { productPrice: true },
+  });
+
+  const stats = new Map<string, RuleStats>();
+  for (const group of groups) {
+    const ruleStats = stats.get(group.ruleId) ?? {
+      impressions: 0,
+      conversions: 0,
+      revenue: 0,
+    };
+
+    if (group.eventType === "IMPRESSION") {
+      ruleStats.impressions = group._count._all;
+    } else {
+      ruleStats.conversions = group._count._all;
+      ruleStats.revenue = Number(group._sum.productPrice || 0);
+    }
+    stats.set(group.ruleId, ruleStats);
+  }
+  return stats;
+}
+
+/**
+ * Aggregate the shop's recent analytics into its rules' stored stats
+ *
+ * Rules without recent events are reset to zero.
+ */
+export async function refreshRuleStats(shopId: string, now = new Date()): Promise<void> {
+  const stats = await getRuleStats(shopId, now);
+
+  await prisma.$transaction([
+    prisma.rule.updateMany({
+      where: { shopId },
+      data: { rankImpressions: 0, rankConversions: 0, rankRevenue: 0 },
+    }),
+    ...[...stats].map(([ruleId, ruleStats]) =>
+      prisma.rule.updateMany({
+        where: { id: ruleId, shopId },
+        data: {
+          rankImpressions: ruleStats.impressions,
+          rankConversions: ruleStats.conversions,
+          rankRevenue: ruleStats.revenue,
+        },
+      })
+    ),
+    prisma.shop.update({
+      where: { id: shopId },
+      data: { rankStatsRefreshedAt: now },
+    }),
+  ]);
+}
+
+/**
+ * Expected auto-rank scores of a shop's rules, from their stored stats
+ *
+ * @returns Score by rule ID, without exploration noise
+ */
+export async function getRuleScores(
+  shopId: string,
+  ruleIds: string[],
+  metric: RankMetric
+): Promise<Map<string, number>> {
+  const rules = await prisma.rule.findMany({
+    where: { shopId, id: { in: ruleIds } },
+    select: { id: true, rankImpressions: true, rankConversions: true, rankRevenue: true },
+  });
+  return scoreRules(ruleIds, toRuleStats(rules), metric, null);
+}
@@ -0,0 +1,140 @@
+import type { RecommendationIntent } from "@prisma/client";
+import { prisma } from "./db.server";
+import type { Offer } from "./offers.server";
+import { unauthenticated } from "./shopify.server";
+
+/**
+ * Fallback Recommendations
+ *
+ * Shopify's own product recommendations, used to fill offer slots that no
+ * rule filled. Fallback offers are tracked under a per-shop pseudo-rule
+ * (Rule.isFallback) so analytics can compare them with hand-made rules.
+ */
+
+export const FALLBACK_RULE_NAME = "Recommended products (fallback)";
+
+// Recommendations are fetched for at most this many cart products
+const MAX_SOURCE_PRODUCTS = 3;
+
+// Product fields as returned by the Storefront API
+interface StorefrontProductNode {
+  id: string;
+  title: string;
+  availableForSale: boolean;
+  featuredImage: { url: string } | null;
+  variants: {
+    nodes: {
+      id: string;
+      availableForSale: boolean;
+      price: { amount: string };
+      compareAtPrice: { amount: string } | null;
+    }[];
+  };
+}
+
+// Convert a Storefront API amount to cents, matching cached product data
+function toCents(amount: string): string {
+  return Math.round(parseFloat(amount) * 100).toString();
+}
+
+/**
+ * Get the shop's fallback pseudo-rule, creating it on first use
+ */
+export async function getFallbackRule(shopId: string) {
+  const existing = await prisma.rule.findFirst({
+    where: { shopId, isFallback: true },
+  });
+
+  if (existing) return existing;
+
+  return prisma.rule.create({
+    data: {
+      shopId,
+      name: FALLBACK_RULE_NAME,
+      isFallback: true,
+    },
+  });
+}
+
+/**
+ * Fetch Shopify's recommendations for the given cart products
+ *
+ * Results for each product are merged in order, without duplicates, and
+ * only available products are returned.
+ *
+ * @param productGids - Cart product GIDs, most relevant first
+ * @returns Offer products (prices in cents), or an empty list on failure
+ */
+export async function fetchRecommendedProducts(
+  shopDomain: string,
+  productGids: string[],
+  intent: RecommendationIntent
+): Promise<Offer["product"][]> {
+  try {
+    const { storefront } = await unauthenticated.storefront(shopDomain);
+
+    const results = await Promise.all(
+      productGids.slice(0, MAX_SOURCE_PRODUCTS).map(async (productId) => {
+        const response = await storefront.graphql(
+          `#graphql
+            query getProductRecommendations(
+              $productId: ID!
+              $intent: ProductRecommendationIntent
+            ) {
+              productRecommendations(productId: $productId, intent: $intent) {
+                id
+                title
+                availableForSale
+                featuredImage {
+                  url
+                }
+                variants(first: 1) {
+                  nodes {
+                    id
+                    availableForSale
+                    price {
+                      amount
+                    }
+                    compareAtPrice {
+                      amount
+                    }
+                  }
+                }
+              }
+            }
+          `,
+          { variables: { productId, intent } }
+        );
+
+        const data = await response.json();
+        return (data.data?.productRecommendations || []) as StorefrontProductNode[];
+      })
+    );
+
+    const products = new Map<string, Offer["product"]>();
+
+    for (const node of results.flat()) {
+      const [variant] = node.variants.nodes;
+      if (products.has(node.id) || !node.availableForSale || !variant?.availableForSale) {
+        continue;
+      }
+
+      products.set(node.id, {
+        id: node.id,
+        variantId: variant.id,
+        title: node.title,
+        image: node.featuredImage?.url || null,
+        price: toCents(variant.price.amount),
+        compareAtPrice: variant.compareAtPrice
+          ? toCents(variant.compareAtPrice.amount)
+          : null,
+        available: true,
+      });
+    }
+
+    return [...products.values()];
+  } catch (error) {
+    console.error("Error fetching product recommendations:", error);
+    return [];
+  }
+}
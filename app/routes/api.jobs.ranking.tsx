@@ -0,0 +1,49 @@
+import type { ActionFunctionArgs } from "react-router";
+import { prisma } from "../db.server";
+import { refreshRuleStats } from "../ranking.server";
+
+/**
+ * Job: Refresh Auto-Rank Stats
+ *
+ * Called periodically by a scheduler (e.g. an hourly Railway cron service):
+ *   POST /api/jobs/ranking
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Re-aggregates recent analytics into the rule stats auto-rank orders
+ * offers by, for every active shop that uses auto-rank.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return Response.json(
+      { error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return Response.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const shops = await prisma.shop.findMany({
+    where: { isActive: true, autoRankEnabled: true },
+    select: { id: true, shopifyDomain: true },
+  });
+
+  const results = [];
+
+  for (const shop of shops) {
+    try {
+      await refreshRuleStats(shop.id);
+      results.push({ shop: shop.shopifyDomain, success: true });
+    } catch (error) {
+      console.error(`Ranking refresh failed for ${shop.shopifyDomain}:`, error);
+      results.push({ shop: shop.shopifyDomain, success: false });
+    }
+  }
+
+  return Response.json({ results });
+}
@@ -0,0 +1,65 @@
+import type { ActionFunctionArgs } from "react-router";
+import { prisma } from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { reconcileCollectionIndex } from "../collections.server";
+import { reconcileProductAttributes } from "../products.server";
+import { syncGiftSchedules } from "../discounts.server";
+
+/**
+ * Job: Reconcile Collection Membership and Product Attribute Indexes, and Gift Schedules
+ *
+ * Called periodically by a scheduler (e.g. a Railway cron service):
+ *   POST /api/jobs/reconcile
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Re-syncs the collections used by each active shop's rules and every
+ * product's tags, vendor and type so the local indexes recover from missed
+ * webhooks. Also republishes the discount function's configuration when a
+ * gift rule has started or ended since the last write, so a gift stops
+ * being free within one run of its end date.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return Response.json(
+      { error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return Response.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const shops = await prisma.shop.findMany({
+    where: { isActive: true },
+    select: { id: true, shopifyDomain: true },
+  });
+
+  const results = [];
+
+  // Run shops one at a time to stay within Admin API rate limits
+  for (const shop of shops) {
+    try {
+      const { admin } = await unauthenticated.admin(shop.shopifyDomain);
+      const summary = await reconcileCollectionIndex(admin, shop.id);
+      const products = await reconcileProductAttributes(admin, shop.id);
+      const giftsResynced = await syncGiftSchedules(admin, shop.id);
+      results.push({
+        shop: shop.shopifyDomain,
+        success: true,
+        ...summary,
+        products,
+        giftsResynced,
+      });
+    } catch (error) {
+      console.error(`Collection reconcile failed for ${shop.shopifyDomain}:`, error);
+      results.push({ shop: shop.shopifyDomain, success: false });
+    }
+  }
+
+  return Response.json({ results });
+}
@@ -0,0 +1,58 @@
+import type { ActionFunctionArgs } from "react-router";
+import { prisma } from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { hasOrdersScope, refreshPurchaseSuggestions } from "../suggestions.server";
+
+/**
+ * Job: Refresh "Frequently Bought Together" Suggestions
+ *
+ * Called periodically by a scheduler (e.g. a Railway cron service):
+ *   POST /api/jobs/suggestions
+ *   Authorization: Bearer $CRON_SECRET
+ *
+ * Re-mines recent orders for every active shop that turned suggestions on.
+ * Shops that haven't granted (or have since revoked) read_orders are skipped.
+ */
+export async function action({ request }: ActionFunctionArgs) {
+  if (request.method !== "POST") {
+    return Response.json(
+      { error: "Method not allowed" },
+      { status: 405 }
+    );
+  }
+
+  const secret = process.env.CRON_SECRET;
+  if (!secret || request.headers.get("Authorization") !== `Bearer ${secret}`) {
+    return Response.json(
+      { error: "Unauthorized" },
+      { status: 401 }
+    );
+  }
+
+  const shops = await prisma.shop.findMany({
+    where: { isActive: true, purchaseSuggestionsEnabled: true },
+    select: { id: true, shopifyDomain: true },
+  });
+
+  const results = [];
+
+  // Run shops one at a time to stay within Admin API rate limits
+  for (const shop of shops) {
+    try {
+      const { admin, session } = await unauthenticated.admin(shop.shopifyDomain);
+
+      if (!hasOrdersScope(session.scope)) {
+        results.push({ shop: shop.shopifyDomain, success: false, skipped: "missing read_orders" });
+        continue;
+      }
+
+      const summary = await refreshPurchaseSuggestions(admin, shop.id);
+      results.push({ shop: shop.shopifyDomain, success: true, ...summary });
+    } catch (error) {
+      console.error(`Suggestion refresh failed for ${shop.shopifyDomain}:`, error);
+      results.push({ shop: shop.shopifyDomain, success: false });
+    }
+  }
+
+  return Response.json({ results });
+}
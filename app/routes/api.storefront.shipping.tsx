@@ -1,18 +1,31 @@
 import type { LoaderFunctionArgs } from "react-router";
 import { prisma } from "../db.server";
+import {
+  progressMilestonesInclude,
+  resolveProgressMilestones,
+  toProgressMilestonesInput,
+} from "../milestones.server";
 
 /**
- * Storefront API: Get Free Shipping Settings
+ * Storefront API: Get Progress Bar Settings
  *
  * Public endpoint - no authentication required
- * Called from theme extension to display free shipping progress bar
+ * Called from theme extension to display the cart progress bar. Milestones
+ * are { threshold, message, icon }, lowest threshold first, in the returned
+ * currency.
  *
  * Query params:
  * - shop: Shop domain (e.g., "my-store.myshopify.com")
+ * - currency: Buyer's presentment currency (e.g., "EUR"), optional
+ * - rate: Storefront exchange rate from the shop's currency, optional; used
+ *   for milestones without a threshold in the buyer's currency
  */
 export async function loader({ request }: LoaderFunctionArgs) {
   const url = new URL(request.url);
   const shop = url.searchParams.get("shop");
+  const currencyParam = (url.searchParams.get("currency") || "").toUpperCase();
+  const currency = /^[A-Z]{3}$/.test(currencyParam) ? currencyParam : null;
+  const rate = url.searchParams.get("rate") ? Number(url.searchParams.get("rate")) : null;
 
   // Validation
   if (!shop) {
@@ -31,7 +44,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
       where: { shopifyDomain: shop },
       select: {
         freeShippingEnabled: true,
-        freeShippingThreshold: true,
+        ...progressMilestonesInclude,
         currencyCode: true,
       },
     });
@@ -40,19 +53,27 @@ export async function loader({ request }: LoaderFunctionArgs) {
       return Response.json(
         {
           enabled: false,
-          threshold: 0,
+          milestones: [],
           currency: "USD",
         },
         { headers: { "Access-Control-Allow-Origin": "*" } }
       );
     }
 
+    // Thresholds in the buyer's currency
+    const resolved = resolveProgressMilestones(
+      toProgressMilestonesInput(shopRecord.progressMilestones),
+      shopRecord.currencyCode,
+      currency,
+      rate
+    );
+
     // Return settings with CORS headers
     return Response.json(
       {
         enabled: shopRecord.freeShippingEnabled,
-        threshold: parseFloat(shopRecord.freeShippingThreshold.toString()),
-        currency: shopRecord.currencyCode,
+        milestones: resolved.milestones,
+        currency: resolved.currency,
       },
       {
         headers: {
@@ -68,7 +89,7 @@ export async function loader({ request }: LoaderFunctionArgs) {
     return Response.json(
       {
         enabled: false,
-        threshold: 0,
+        milestones: [],
       },
       {
         status: 500,
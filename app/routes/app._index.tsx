@@ -4,9 +4,10 @@ import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
 import { prisma } from "../db.server";
+import { reconcileProductAttributes } from "../products.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
 
   // Get or create shop record
@@ -14,7 +15,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     where: { shopifyDomain: shop },
     include: {
       rules: {
-        where: { isEnabled: true },
+        where: { isEnabled: true, isFallback: false },
       },
     },
   });
@@ -30,10 +31,16 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       },
       include: {
         rules: {
-          where: { isEnabled: true },
+          where: { isEnabled: true, isFallback: false },
         },
       },
     });
+
+    // Index existing products' tags, vendors and types in the background;
+    // the reconcile job retries if this fails
+    reconcileProductAttributes(admin, shopRecord.id).catch((error) => {
+      console.error("Initial product attribute indexing failed:", error);
+    });
   } else {
     // Update access token on each login to keep it fresh
     shopRecord = await prisma.shop.update({
@@ -41,7 +48,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       data: { accessToken: session.accessToken },
       include: {
         rules: {
-          where: { isEnabled: true },
+          where: { isEnabled: true, isFallback: false },
         },
       },
     });
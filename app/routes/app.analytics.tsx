@@ -1,9 +1,14 @@
-import type { LoaderFunctionArgs } from "react-router";
-import { useLoaderData } from "react-router";
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useFetcher } from "react-router";
 import { authenticate } from "../shopify.server";
 import { prisma } from "../db.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
+import { quantityTiersInclude, syncUpsellDiscount } from "../discounts.server";
+import { getSignificance, promoteExperimentWinner } from "../experiments.server";
+import type { ProductSnapshot } from "../products.server";
+import { getRuleScores, RANK_LOOKBACK_DAYS } from "../ranking.server";
+import { upsellsInclude } from "../upsells.server";
 
 /**
  * Analytics Dashboard
@@ -25,9 +30,54 @@ interface AnalyticsData {
     conversionRate: number;
     revenue: number;
     isEnabled: boolean;
+    rankScore: number | null; // Auto-rank score, when auto-rank is on
+    products: ProductPerformance[];
   }>;
 }
 
+interface ExperimentResult {
+  ruleId: string;
+  ruleName: string;
+  startedAt: string;
+  arms: ExperimentArm[];
+}
+
+interface ExperimentArm {
+  productId: string;
+  title: string;
+  trafficShare: number; // Percent of sessions assigned to this arm
+  impressions: number;
+  conversions: number;
+  conversionRate: number;
+  revenue: number;
+  significance: number | null; // Confidence the arm differs from the first arm
+  isLeading: boolean;
+}
+
+interface TierResult {
+  ruleId: string;
+  ruleName: string;
+  tiers: TierPerformance[];
+}
+
+interface TierPerformance {
+  quantity: number; // 1 is a single unit, added without a tier
+  discountPercent: number;
+  conversions: number;
+  conversionShare: number; // Percent of the rule's conversions
+  revenue: number;
+}
+
+interface ProductPerformance {
+  productId: string;
+  title: string;
+  impressions: number;
+  conversions: number;
+  conversionRate: number;
+  revenue: number;
+  dismissals: number;
+}
+
 export async function loader({ request }: LoaderFunctionArgs) {
   const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
@@ -57,6 +107,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
         totalRevenue: 0,
       },
       rulePerformance: [],
+      experiments: [],
+      tierResults: [],
+      autoRankMetric: null,
+      rankLookbackDays: RANK_LOOKBACK_DAYS,
       currencyCode,
     };
   }
@@ -85,10 +139,16 @@ export async function loader({ request }: LoaderFunctionArgs) {
 
   // Calculate per-rule performance
   const ruleIds = [...new Set(events.map((e) => e.ruleId))];
+
+  // The scores the offer engine currently ranks rules by, before exploration
+  const rankScores = shopRecord.autoRankEnabled
+    ? await getRuleScores(shopRecord.id, ruleIds, shopRecord.autoRankMetric)
+    : null;
   const rulePerformance = await Promise.all(
     ruleIds.map(async (ruleId) => {
       const rule = await prisma.rule.findUnique({
         where: { id: ruleId },
+        include: upsellsInclude,
       });
 
       if (!rule) return null;
@@ -101,6 +161,10 @@ export async function loader({ request }: LoaderFunctionArgs) {
         (e) => e.ruleId === ruleId && e.eventType === "CONVERSION"
       ).length;
 
+      const ruleDismissals = events.filter(
+        (e) => e.ruleId === ruleId && e.eventType === "DISMISSAL"
+      ).length;
+
       const ruleConversionRate =
         ruleImpressions > 0 ? (ruleConversions / ruleImpressions) * 100 : 0;
 
@@ -108,6 +172,35 @@ export async function loader({ request }: LoaderFunctionArgs) {
         .filter((e) => e.ruleId === ruleId && e.eventType === "CONVERSION")
         .reduce((sum, event) => sum + Number(event.productPrice || 0), 0);
 
+      // Per-product breakdown, in the rule's upsell order
+      const products: ProductPerformance[] = rule.upsells.map((upsell) => {
+        const productEvents = events.filter(
+          (e) => e.ruleId === ruleId && e.productId === upsell.productId
+        );
+        const impressions = productEvents.filter(
+          (e) => e.eventType === "IMPRESSION"
+        ).length;
+        const conversionEvents = productEvents.filter(
+          (e) => e.eventType === "CONVERSION"
+        );
+
+        return {
+          productId: upsell.productId,
+          title:
+            (upsell.productData as ProductSnapshot | null)?.title ||
+            upsell.productId,
+          impressions,
+          conversions: conversionEvents.length,
+          conversionRate:
+            impressions > 0 ? (conversionEvents.length / impressions) * 100 : 0,
+          revenue: conversionEvents.reduce(
+            (sum, event) => sum + Number(event.productPrice || 0),
+            0
+          ),
+          dismissals: productEvents.filter((e) => e.eventType === "DISMISSAL").length,
+        };
+      });
+
       return {
         ruleId: rule.id,
         ruleName: rule.name,
@@ -115,11 +208,111 @@ export async function loader({ request }: LoaderFunctionArgs) {
         conversions: ruleConversions,
         conversionRate: ruleConversionRate,
         revenue: ruleRevenue,
+        dismissals: ruleDismissals,
         isEnabled: rule.isEnabled,
+        // The fallback rule only fills empty slots, so it isn't ranked
+        rankScore: rule.isFallback ? null : (rankScores?.get(rule.id) ?? null),
+        products,
       };
     })
   );
 
+  // Compare the arms of running experiments on events since they started
+  const experimentRules = await prisma.rule.findMany({
+    where: { shopId: shopRecord.id, experimentStartedAt: { not: null } },
+    include: upsellsInclude,
+    orderBy: { experimentStartedAt: "asc" },
+  });
+
+  const experiments: ExperimentResult[] = experimentRules.map((rule) => {
+    const startedAt = rule.experimentStartedAt as Date;
+    const totalWeight = rule.upsells.reduce((sum, upsell) => sum + upsell.trafficWeight, 0);
+
+    const arms = rule.upsells.map((upsell) => {
+      const armEvents = events.filter(
+        (e) =>
+          e.ruleId === rule.id &&
+          e.productId === upsell.productId &&
+          e.createdAt >= startedAt
+      );
+      const impressions = armEvents.filter((e) => e.eventType === "IMPRESSION").length;
+      const conversionEvents = armEvents.filter((e) => e.eventType === "CONVERSION");
+
+      return {
+        productId: upsell.productId,
+        title: (upsell.productData as ProductSnapshot | null)?.title || upsell.productId,
+        trafficShare: totalWeight > 0 ? (upsell.trafficWeight / totalWeight) * 100 : 0,
+        impressions,
+        conversions: conversionEvents.length,
+        conversionRate: impressions > 0 ? (conversionEvents.length / impressions) * 100 : 0,
+        revenue: conversionEvents.reduce(
+          (sum, event) => sum + Number(event.productPrice || 0),
+          0
+        ),
+      };
+    });
+
+    // The first arm is the control the others are compared against
+    const [control] = arms;
+    const leading = arms.reduce(
+      (best, arm) => (arm.conversionRate > best.conversionRate ? arm : best),
+      control
+    );
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      startedAt: startedAt.toISOString(),
+      arms: arms.map((arm, index) => ({
+        ...arm,
+        significance: index === 0 ? null : getSignificance(arm, control),
+        isLeading: arm === leading && arm.impressions > 0,
+      })),
+    };
+  });
+
+  // Which quantity tiers volume offers converted at
+  const tierRules = await prisma.rule.findMany({
+    where: { shopId: shopRecord.id, quantityTiers: { some: {} } },
+    include: quantityTiersInclude,
+    orderBy: { priority: "asc" },
+  });
+
+  const tierResults: TierResult[] = tierRules.map((rule) => {
+    const ruleConversions = conversionEvents.filter((e) => e.ruleId === rule.id);
+    const options = [
+      { quantity: 1, discountPercent: 0 },
+      ...rule.quantityTiers.map((tier) => ({
+        quantity: tier.quantity,
+        discountPercent: Number(tier.discountPercent),
+      })),
+    ];
+
+    return {
+      ruleId: rule.id,
+      ruleName: rule.name,
+      tiers: options.map((option) => {
+        // Conversions tracked before tiers existed added one unit
+        const tierConversions = ruleConversions.filter(
+          (e) => (e.quantity ?? 1) === option.quantity
+        );
+
+        return {
+          ...option,
+          conversions: tierConversions.length,
+          conversionShare:
+            ruleConversions.length > 0
+              ? (tierConversions.length / ruleConversions.length) * 100
+              : 0,
+          revenue: tierConversions.reduce(
+            (sum, event) => sum + Number(event.productPrice || 0),
+            0
+          ),
+        };
+      }),
+    };
+  });
+
   const analytics = {
     summary: {
       totalImpressions,
@@ -128,12 +321,53 @@ export async function loader({ request }: LoaderFunctionArgs) {
       totalRevenue,
     },
     rulePerformance: rulePerformance.filter(Boolean) as any,
+    experiments,
+    tierResults,
+    autoRankMetric: shopRecord.autoRankEnabled ? shopRecord.autoRankMetric : null,
+    rankLookbackDays: RANK_LOOKBACK_DAYS,
     currencyCode,
   };
 
   return analytics;
 }
 
+export async function action({ request }: ActionFunctionArgs) {
+  const { session, admin } = await authenticate.admin(request);
+
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopifyDomain: session.shop },
+  });
+
+  if (!shopRecord) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+
+  if (intent === "promote") {
+    const promoted = await promoteExperimentWinner(
+      shopRecord.id,
+      formData.get("ruleId") as string,
+      formData.get("productId") as string
+    );
+
+    if (!promoted) {
+      return Response.json({ error: "Experiment not found" }, { status: 404 });
+    }
+
+    // The losing upsells no longer get the rule's discount
+    try {
+      await syncUpsellDiscount(admin, shopRecord.id);
+    } catch (error) {
+      console.error("Error syncing upsell discount:", error);
+    }
+    return Response.json({ success: true });
+  }
+
+  return Response.json({ error: "Invalid intent" }, { status: 400 });
+}
+
 export default function Analytics() {
   const analytics = useLoaderData<typeof loader>();
 
@@ -148,6 +382,13 @@ export default function Analytics() {
     }).format(amount);
   };
 
+  // Auto-rank scores are conversions or revenue per impression
+  const isAutoRanked = analytics.autoRankMetric !== null;
+  const formatRankScore = (score: number) =>
+    analytics.autoRankMetric === "REVENUE_PER_IMPRESSION"
+      ? formatCurrency(score)
+      : `${(score * 100).toFixed(1)}%`;
+
   return (
     <s-page heading="Analytics">
       {/* Summary Cards */}
@@ -206,6 +447,99 @@ export default function Analytics() {
         </s-stack>
       </s-section>
 
+      {/* Running A/B Tests */}
+      {analytics.experiments.length > 0 && (
+        <s-section heading="Experiments">
+          <s-stack direction="block" gap="large">
+            {analytics.experiments.map((experiment: ExperimentResult) => (
+              <s-stack key={experiment.ruleId} direction="block" gap="small-200">
+                <s-text weight="semibold">{experiment.ruleName}</s-text>
+                <s-text variant="muted" size="small">
+                  Running since {new Date(experiment.startedAt).toLocaleDateString()}
+                </s-text>
+                <s-table>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Product</th>
+                        <th style={{ textAlign: "right" }}>Traffic</th>
+                        <th style={{ textAlign: "right" }}>Impressions</th>
+                        <th style={{ textAlign: "right" }}>Conversions</th>
+                        <th style={{ textAlign: "right" }}>Conv. Rate</th>
+                        <th style={{ textAlign: "right" }}>Revenue</th>
+                        <th style={{ textAlign: "right" }}>Significance</th>
+                        <th />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {experiment.arms.map((arm, index) => (
+                        <ExperimentArmRow
+                          key={arm.productId}
+                          ruleId={experiment.ruleId}
+                          arm={arm}
+                          isControl={index === 0}
+                          formatCurrency={formatCurrency}
+                        />
+                      ))}
+                    </tbody>
+                  </table>
+                </s-table>
+              </s-stack>
+            ))}
+            <s-text variant="muted" size="small">
+              Significance is the confidence that a product&apos;s conversion rate
+              really differs from the first product&apos;s. Wait for 95% or more before
+              promoting a winner; promoting keeps only that product on the rule.
+            </s-text>
+          </s-stack>
+        </s-section>
+      )}
+
+      {/* Volume Offer Tiers */}
+      {analytics.tierResults.length > 0 && (
+        <s-section heading="Volume Tiers">
+          <s-stack direction="block" gap="large">
+            {analytics.tierResults.map((result: TierResult) => (
+              <s-stack key={result.ruleId} direction="block" gap="small-200">
+                <s-text weight="semibold">{result.ruleName}</s-text>
+                <s-table>
+                  <table>
+                    <thead>
+                      <tr>
+                        <th>Quantity</th>
+                        <th style={{ textAlign: "right" }}>Conversions</th>
+                        <th style={{ textAlign: "right" }}>Share</th>
+                        <th style={{ textAlign: "right" }}>Revenue</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {result.tiers.map((tier) => (
+                        <tr key={tier.quantity}>
+                          <td>
+                            {tier.quantity === 1
+                              ? "1 unit"
+                              : `Buy ${tier.quantity}${tier.discountPercent > 0 ? `, save ${tier.discountPercent}%` : ""}`}
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {tier.conversions.toLocaleString()}
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {tier.conversionShare.toFixed(1)}%
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {formatCurrency(tier.revenue)}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </s-table>
+              </s-stack>
+            ))}
+          </s-stack>
+        </s-section>
+      )}
+
       {/* Per-Rule Performance Table */}
       <s-section heading="Performance by Rule">
         {analytics.rulePerformance.length > 0 ? (
@@ -219,10 +553,12 @@ export default function Analytics() {
                   <th style={{ textAlign: "right" }}>Conversions</th>
                   <th style={{ textAlign: "right" }}>Conv. Rate</th>
                   <th style={{ textAlign: "right" }}>Revenue</th>
+                  <th style={{ textAlign: "right" }}>Dismissals</th>
+                  {isAutoRanked && <th style={{ textAlign: "right" }}>Rank Score</th>}
                 </tr>
               </thead>
               <tbody>
-                {analytics.rulePerformance.map((rule) => (
+                {analytics.rulePerformance.map((rule) => [
                   <tr key={rule.ruleId}>
                     <td>{rule.ruleName}</td>
                     <td>
@@ -244,8 +580,43 @@ export default function Analytics() {
                     <td style={{ textAlign: "right" }}>
                       {formatCurrency(rule.revenue)}
                     </td>
-                  </tr>
-                ))}
+                    <td style={{ textAlign: "right" }}>
+                      {rule.dismissals.toLocaleString()}
+                    </td>
+                    {isAutoRanked && (
+                      <td style={{ textAlign: "right" }}>
+                        {rule.rankScore === null ? "—" : formatRankScore(rule.rankScore)}
+                      </td>
+                    )}
+                  </tr>,
+                  // Only break down rules with more than one upsell product
+                  ...(rule.products.length > 1
+                    ? rule.products.map((product: ProductPerformance) => (
+                        <tr key={`${rule.ruleId}-${product.productId}`}>
+                          <td style={{ paddingLeft: "1.5rem" }}>
+                            <s-text variant="muted">{product.title}</s-text>
+                          </td>
+                          <td />
+                          <td style={{ textAlign: "right" }}>
+                            {product.impressions.toLocaleString()}
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {product.conversions.toLocaleString()}
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {product.conversionRate.toFixed(1)}%
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {formatCurrency(product.revenue)}
+                          </td>
+                          <td style={{ textAlign: "right" }}>
+                            {product.dismissals.toLocaleString()}
+                          </td>
+                          {isAutoRanked && <td />}
+                        </tr>
+                      ))
+                    : []),
+                ])}
               </tbody>
             </table>
           </s-table>
@@ -263,11 +634,76 @@ export default function Analytics() {
             </s-stack>
           </s-card>
         )}
+        {isAutoRanked && analytics.rulePerformance.length > 0 && (
+          <s-text variant="muted" size="small">
+            Auto-rank offers matching rules with the highest rank score first. The score
+            is the {analytics.autoRankMetric === "REVENUE_PER_IMPRESSION"
+              ? "revenue per impression"
+              : "conversion rate"}{" "}
+            over the last {analytics.rankLookbackDays} days, evened out towards your
+            store&apos;s average. Rules that haven&apos;t been shown much yet are moved up
+            at random now and then, so they can collect data.
+          </s-text>
+        )}
       </s-section>
     </s-page>
   );
 }
 
+function ExperimentArmRow({
+  ruleId,
+  arm,
+  isControl,
+  formatCurrency,
+}: {
+  ruleId: string;
+  arm: ExperimentArm;
+  isControl: boolean;
+  formatCurrency: (cents: number) => string;
+}) {
+  const fetcher = useFetcher();
+  const isPromoting = fetcher.state !== "idle";
+
+  return (
+    <tr>
+      <td>
+        <s-stack direction="inline" gap="small-200" align="center">
+          <s-text>{arm.title}</s-text>
+          {isControl && <s-badge>Control</s-badge>}
+          {arm.isLeading && <s-badge tone="success">Leading</s-badge>}
+        </s-stack>
+      </td>
+      <td style={{ textAlign: "right" }}>{arm.trafficShare.toFixed(0)}%</td>
+      <td style={{ textAlign: "right" }}>{arm.impressions.toLocaleString()}</td>
+      <td style={{ textAlign: "right" }}>{arm.conversions.toLocaleString()}</td>
+      <td style={{ textAlign: "right" }}>{arm.conversionRate.toFixed(1)}%</td>
+      <td style={{ textAlign: "right" }}>{formatCurrency(arm.revenue)}</td>
+      <td style={{ textAlign: "right" }}>
+        {isControl
+          ? "—"
+          : arm.significance === null
+            ? "Not enough data"
+            : `${(arm.significance * 100).toFixed(0)}%`}
+      </td>
+      <td>
+        {arm.isLeading && (
+          <s-button
+            onClick={() =>
+              fetcher.submit(
+                { intent: "promote", ruleId, productId: arm.productId },
+                { method: "post" }
+              )
+            }
+            {...(isPromoting ? { loading: true } : {})}
+          >
+            Promote Winner
+          </s-button>
+        )}
+      </td>
+    </tr>
+  );
+}
+
 export const headers: HeadersFunction = (headersArgs) => {
   return boundary.headers(headersArgs);
 };
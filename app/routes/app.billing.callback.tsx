@@ -4,6 +4,7 @@ import { authenticate } from "../shopify.server";
 import { prisma } from "../db.server";
 import { getCurrentPlan } from "../billing";
 import { getCurrentSubscription } from "../billing.server";
+import { syncUpsellDiscount } from "../discounts.server";
 
 /**
  * Billing Callback
@@ -21,7 +22,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     const currentPlan = getCurrentPlan(subscription);
 
     // Update shop record with new plan
-    await prisma.shop.update({
+    const shopRecord = await prisma.shop.update({
       where: { shopifyDomain: shop },
       data: {
         currentPlan,
@@ -29,6 +30,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       },
     });
 
+    // Upsell discounts are a Pro feature
+    try {
+      await syncUpsellDiscount(admin, shopRecord.id);
+    } catch (error) {
+      console.error("Error syncing upsell discount:", error);
+    }
+
     // Redirect back to billing page with success message
     return redirect("/app/billing?upgraded=true");
   } catch (error) {
@@ -10,6 +10,7 @@ import {
   getCurrentSubscription,
   cancelSubscription,
 } from "../billing.server";
+import { syncUpsellDiscount } from "../discounts.server";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -20,7 +21,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     where: { shopifyDomain: shop },
     include: {
       rules: {
-        where: { isEnabled: true },
+        where: { isEnabled: true, isFallback: false },
       },
     },
   });
@@ -71,11 +72,18 @@ export const action = async ({ request }: ActionFunctionArgs) => {
         await cancelSubscription(admin, subscriptionId);
 
         // Update shop record
-        await prisma.shop.update({
+        const shopRecord = await prisma.shop.update({
           where: { shopifyDomain: shop },
           data: { currentPlan: "FREE" },
         });
 
+        // Stop discounting upsells at checkout
+        try {
+          await syncUpsellDiscount(admin, shopRecord.id);
+        } catch (error) {
+          console.error("Error syncing upsell discount:", error);
+        }
+
         return { success: true, message: "Subscription cancelled. You're now on the Free plan." };
       }
     }
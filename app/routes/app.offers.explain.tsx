@@ -0,0 +1,25 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { parseCartContext, resolveOffers } from "../offers.server";
+
+/**
+ * Admin API: Explain Offer Resolution
+ *
+ * Resolves offers for a cart the way the storefront endpoints do, and
+ * returns why each enabled rule was offered or skipped. Explanations
+ * reveal the merchant's rule configuration, so they're only served to the
+ * authenticated admin, never from the public storefront endpoints.
+ *
+ * Query params: the cart params of api.storefront.upsells (products,
+ * variants, quantities, subtotal, country, customerId, ...). The shop is
+ * taken from the admin session.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  const cart = parseCartContext(url.searchParams);
+  const resolution = await resolveOffers(session.shop, cart);
+
+  return Response.json(resolution);
+};
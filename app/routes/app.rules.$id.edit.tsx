@@ -4,7 +4,74 @@ import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
 import { prisma } from "../db.server";
-import { useState, useEffect } from "react";
+import { indexCollectionProducts } from "../collections.server";
+import {
+  buildConditionGroupsCreate,
+  conditionGroupsInclude,
+  getConditionAttributes,
+  getConditionCollectionIds,
+  parseAudienceInput,
+  parseExclusionsInput,
+  parseFrequencyCapsInput,
+  isUpsellAlsoTrigger,
+  parseConditionsInput,
+  toConditionsInput,
+  validateConditions,
+} from "../conditions.server";
+import {
+  findRuleConflicts,
+  hasRestrictions,
+  type AnalyzableRule,
+} from "../conflicts.server";
+import {
+  getRuleDiscount,
+  hasTierSavings,
+  parseDiscountInput,
+  parseQuantityTiers,
+  quantityTiersInclude,
+  syncUpsellDiscount,
+  toQuantityTiersInput,
+  validateDiscount,
+  validateQuantityTiers,
+} from "../discounts.server";
+import {
+  buildGiftUpsellCreate,
+  getGiftThreshold,
+  parseGiftInput,
+  toGiftInput,
+} from "../gifts.server";
+import { fetchMarkets, parseCountryCodes } from "../markets.server";
+import {
+  fetchResourceTitles,
+  fetchTriggerValueOptions,
+  indexAttributeProducts,
+  type ProductSnapshot,
+} from "../products.server";
+import {
+  buildUpsellsCreate,
+  hasMatchOption,
+  parseTrafficWeights,
+  parseUpsellProductIds,
+  upsellsInclude,
+} from "../upsells.server";
+import {
+  parseScheduleInput,
+  syncShopTimezone,
+  validateSchedule,
+} from "../schedules.server";
+import { FREQUENCY_CAP_WINDOW_DAYS, RULE_TYPES, type RuleTypeKey } from "../rules";
+import { toZonedInputValue } from "../schedules";
+import { ConditionBuilder } from "../components/ConditionBuilder";
+import { AudienceEditor } from "../components/AudienceEditor";
+import { ExclusionsEditor } from "../components/ExclusionsEditor";
+import { MarketsEditor } from "../components/MarketsEditor";
+import { RuleConflictsBanner } from "../components/RuleConflictsBanner";
+import { ScheduleEditor } from "../components/ScheduleEditor";
+import { UpsellProductList } from "../components/UpsellProductList";
+import { DiscountEditor } from "../components/DiscountEditor";
+import { GiftPicker } from "../components/GiftPicker";
+import { QuantityTiersEditor } from "../components/QuantityTiersEditor";
+import { useEffect, useState } from "react";
 
 // Step 1: Load existing rule data
 export const loader = async ({ request, params }: LoaderFunctionArgs) => {
@@ -30,6 +97,12 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     where: {
       id: ruleId,
       shopId: shopRecord.id,
+      isFallback: false,
+    },
+    include: {
+      ...conditionGroupsInclude,
+      ...upsellsInclude,
+      ...quantityTiersInclude,
     },
   });
 
@@ -37,19 +110,65 @@ export const loader = async ({ request, params }: LoaderFunctionArgs) => {
     throw new Response("Rule not found", { status: 404 });
   }
 
+  // Resolve titles for the exclusion lists
+  const titles = await fetchResourceTitles(admin, [
+    ...rule.excludedProductIds,
+    ...rule.excludedCollectionIds,
+  ]);
+  const withTitle = (id: string) => ({ id, title: titles.get(id) || id });
+
+  const ianaTimezone = await syncShopTimezone(admin, shopRecord);
+
   return Response.json({
     rule: {
       id: rule.id,
       name: rule.name,
-      triggerType: rule.triggerType,
-      triggerProductId: rule.triggerProductId,
-      triggerCollectionId: rule.triggerCollectionId,
-      upsellProductId: rule.upsellProductId,
+      type: rule.type,
+      conditions: toConditionsInput(rule),
+      upsells: rule.upsells.map((upsell) => ({
+        id: upsell.productId,
+        title: (upsell.productData as ProductSnapshot | null)?.title || upsell.productId,
+      })),
+      upsellTrafficWeights: Object.fromEntries(
+        rule.upsells.map((upsell) => [upsell.productId, upsell.trafficWeight])
+      ),
+      isExperiment: rule.experimentStartedAt !== null,
+      gift: rule.type === "GIFT" ? toGiftInput(rule) : null,
+      giftTitle: (rule.upsells[0]?.productData as ProductSnapshot | null)?.title,
+      upsellMatchOption: rule.upsellMatchOption,
+      exclusions: {
+        products: rule.excludedProductIds.map(withTitle),
+        collections: rule.excludedCollectionIds.map(withTitle),
+        tags: rule.excludedTags,
+      },
+      audience: {
+        audience: rule.audience,
+        customerTags: rule.audienceCustomerTags,
+      },
+      countryCodes: rule.countryCodes,
+      frequencyCaps: {
+        perSession: rule.maxImpressionsPerSession,
+        perCustomer: rule.maxImpressionsPerCustomer,
+      },
+      schedule: {
+        startsAt: toZonedInputValue(rule.startsAt, ianaTimezone),
+        endsAt: toZonedInputValue(rule.endsAt, ianaTimezone),
+        days: rule.scheduleDays,
+        startHour: rule.scheduleStartHour,
+        endHour: rule.scheduleEndHour,
+      },
+      discount: getRuleDiscount(rule),
+      quantityTiers: toQuantityTiersInput(rule.quantityTiers),
+      isExclusive: rule.isExclusive,
       isEnabled: rule.isEnabled,
     },
     shop: {
       plan: shopRecord.currentPlan,
+      currencyCode: shopRecord.currencyCode,
+      ianaTimezone,
     },
+    triggerValueOptions: await fetchTriggerValueOptions(admin),
+    markets: await fetchMarkets(admin),
   });
 };
 
@@ -83,11 +202,22 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
   }
 
   const name = formData.get("name") as string;
-  const triggerType = formData.get("triggerType") as "PRODUCT" | "COLLECTION";
-  const triggerProductId = formData.get("triggerProductId") as string;
-  const triggerCollectionId = formData.get("triggerCollectionId") as string;
-  const upsellProductId = formData.get("upsellProductId") as string;
+  const type: RuleTypeKey = formData.get("type") === "GIFT" ? "GIFT" : "UPSELL";
+  const gift = type === "GIFT" ? parseGiftInput(formData) : null;
+  const conditions = parseConditionsInput(formData.get("conditions"));
+  const exclusions = parseExclusionsInput(formData);
+  const audience = parseAudienceInput(formData);
+  const countryCodes = parseCountryCodes(formData);
+  const frequencyCaps = parseFrequencyCapsInput(formData);
+  const upsellProductIds = parseUpsellProductIds(formData);
+  const upsellMatchOption = ((formData.get("upsellMatchOption") as string) || "").trim();
+  const isExperiment = formData.get("isExperiment") === "true";
+  const discount = parseDiscountInput(formData);
+  const quantityTiers = parseQuantityTiers(formData);
+  const trafficWeights = isExperiment ? parseTrafficWeights(formData) : {};
+  const schedule = parseScheduleInput(formData, shopRecord.ianaTimezone);
   const isEnabled = formData.get("isEnabled") === "true";
+  const isExclusive = formData.get("isExclusive") === "true";
 
   // Validation
   const errors: any = {};
@@ -96,179 +226,259 @@ export const action = async ({ request, params }: ActionFunctionArgs) => {
     errors.name = "Rule name is required";
   }
 
-  if (!triggerType) {
-    errors.triggerType = "Trigger type is required";
+  const conditionsError = validateConditions(conditions);
+  if (conditionsError) {
+    errors.conditions = conditionsError;
   }
 
-  if (triggerType === "PRODUCT" && !triggerProductId) {
-    errors.triggerProductId = "Trigger product is required";
+  const scheduleError = validateSchedule(schedule);
+  if (scheduleError) {
+    errors.schedule = scheduleError;
   }
 
-  if (triggerType === "COLLECTION" && !triggerCollectionId) {
-    errors.triggerCollectionId = "Trigger collection is required";
+  if (!frequencyCaps) {
+    errors.frequencyCaps = "Impression caps must be whole numbers of at least 1";
   }
 
-  if (!upsellProductId) {
-    errors.upsellProductId = "Upsell product is required";
+  // Gift rules submit their gift instead of upsell products
+  if (type === "GIFT") {
+    if (shopRecord.currentPlan === "FREE") {
+      errors.gift = "Gift rules are available on the Pro plan";
+    } else if (!gift) {
+      errors.gift = "Select a gift";
+    }
+
+    // Checkout can only check the cart value before making the gift free
+    if (conditions && !errors.conditions && getGiftThreshold(conditions) === null) {
+      errors.conditions = "Gift rules need a minimum cart value that every match requires";
+    }
+  } else if (upsellProductIds.length === 0) {
+    errors.upsellProductIds = "Select at least one upsell product";
   }
 
   // Check if trigger and upsell are the same
-  if (triggerType === "PRODUCT" && triggerProductId === upsellProductId) {
-    errors.upsellProductId = "Trigger and upsell must be different products";
+  if (
+    conditions &&
+    upsellProductIds.some((productId) => isUpsellAlsoTrigger(conditions, productId))
+  ) {
+    errors.upsellProductIds = "Trigger and upsell must be different products";
+  }
+
+  const discountError = validateDiscount(discount);
+  if (discountError) {
+    errors.discount = discountError;
+  } else if (discount && shopRecord.currentPlan === "FREE") {
+    errors.discount = "Upsell discounts are available on the Pro plan";
+  }
+
+  const quantityTiersError = validateQuantityTiers(quantityTiers);
+  if (quantityTiersError) {
+    errors.quantityTiers = quantityTiersError;
+  } else if (hasTierSavings(quantityTiers ?? []) && shopRecord.currentPlan === "FREE") {
+    errors.quantityTiers = "Tier discounts are available on the Pro plan";
+  }
+
+  if (isExperiment && upsellProductIds.length < 2) {
+    errors.upsellProductIds = "Select at least two upsell products to A/B test";
+  } else if (!trafficWeights) {
+    errors.upsellProductIds = "Traffic weights must be whole numbers of at least 1";
   }
 
-  if (Object.keys(errors).length > 0) {
+  if (Object.keys(errors).length > 0 || !conditions || !schedule || !frequencyCaps) {
     return Response.json({ errors }, { status: 400 });
   }
 
   // Fetch updated product data if products changed
   const currentRule = await prisma.rule.findUnique({
     where: { id: ruleId },
+    include: {
+      ...conditionGroupsInclude,
+      ...upsellsInclude,
+      ...quantityTiersInclude,
+    },
   });
 
-  // Fetch trigger product data (if trigger is PRODUCT and changed or missing)
-  let triggerProductData = currentRule?.triggerProductData;
+  if (!currentRule) {
+    return Response.json({ error: "Rule not found" }, { status: 404 });
+  }
 
-  if (triggerType === "PRODUCT" && triggerProductId &&
-      (triggerProductId !== currentRule?.triggerProductId || !currentRule?.triggerProductData)) {
-    try {
-      const response = await admin.graphql(
-        `#graphql
-          query getProduct($id: ID!) {
-            product(id: $id) {
-              id
-              title
-              featuredImage {
-                url
-              }
-              variants(first: 1) {
-                edges {
-                  node {
-                    price
-                  }
-                }
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            id: triggerProductId,
-          },
-        }
-      );
-
-      const data = await response.json();
-      const product = data.data?.product;
-
-      if (product) {
-        const variant = product.variants.edges[0]?.node;
-        // Convert price from dollars to cents for consistent storage
-        const priceInCents = variant?.price
-          ? Math.round(parseFloat(variant.price) * 100).toString()
-          : "0";
-        triggerProductData = {
-          title: product.title,
-          image: product.featuredImage?.url || null,
-          price: priceInCents,
-        };
-      }
-    } catch (error) {
-      console.error("Error fetching trigger product data:", error);
+  // Warn about conflicts with other rules until the merchant confirms
+  if (type === "UPSELL" && formData.get("acknowledgeConflicts") !== "true") {
+    const candidate: AnalyzableRule = {
+      id: ruleId,
+      name: name.trim(),
+      isEnabled,
+      priority: currentRule.priority,
+      createdAt: currentRule.createdAt,
+      conditions,
+      upsellProductIds,
+      isExclusive,
+      isRestricted: hasRestrictions({
+        ...schedule,
+        audience: audience.audience,
+        countryCodes,
+        excludedProductIds: exclusions.productIds,
+        excludedCollectionIds: exclusions.collectionIds,
+        excludedTags: exclusions.tags,
+        maxImpressionsPerSession: frequencyCaps.perSession,
+        maxImpressionsPerCustomer: frequencyCaps.perCustomer,
+      }),
+      isExperiment,
+    };
+
+    const conflicts = (await findRuleConflicts(shopRecord.id, candidate)).get(candidate.id);
+    if (conflicts) {
+      return Response.json({ conflicts }, { status: 400 });
     }
   }
 
-  // Fetch upsell product data
-  let upsellProductData = currentRule?.upsellProductData;
+  // Fetch upsell or gift product data from Shopify (reusing cached snapshots)
+  let upsells;
+  try {
+    upsells = gift
+      ? await buildGiftUpsellCreate(admin, gift, currentRule.upsells)
+      : await buildUpsellsCreate(
+          admin,
+          upsellProductIds,
+          currentRule.upsells,
+          trafficWeights ?? {}
+        );
+  } catch (error) {
+    console.error("Error fetching product data:", error);
+    return Response.json(
+      { errors: { [gift ? "gift" : "upsellProductIds"]: "Failed to fetch product data" } },
+      { status: 400 }
+    );
+  }
 
-  if (upsellProductId !== currentRule?.upsellProductId) {
-    try {
-      const response = await admin.graphql(
-        `#graphql
-          query getProduct($id: ID!) {
-            product(id: $id) {
-              id
-              title
-              featuredImage {
-                url
-              }
-              variants(first: 1) {
-                edges {
-                  node {
-                    id
-                    price
-                    compareAtPrice
-                  }
-                }
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            id: upsellProductId,
-          },
-        }
-      );
-
-      const data = await response.json();
-      const product = data.data?.product;
-
-      if (product) {
-        const variant = product.variants.edges[0]?.node;
-        // Convert prices from dollars to cents for consistent storage
-        const priceInCents = variant?.price
-          ? Math.round(parseFloat(variant.price) * 100).toString()
-          : "0";
-        const compareAtPriceInCents = variant?.compareAtPrice
-          ? Math.round(parseFloat(variant.compareAtPrice) * 100).toString()
-          : null;
-        upsellProductData = {
-          title: product.title,
-          image: product.featuredImage?.url || null,
-          price: priceInCents,
-          compareAtPrice: compareAtPriceInCents,
-          variantId: variant?.id || null,
-        };
-      }
-    } catch (error) {
-      console.error("Error fetching product data:", error);
-      return Response.json(
-        { errors: { upsellProductId: "Failed to fetch product data" } },
-        { status: 400 }
-      );
-    }
+  if (upsellMatchOption && !hasMatchOption(upsells, upsellMatchOption)) {
+    return Response.json(
+      {
+        errors: {
+          upsellMatchOption: `None of the upsell products has a "${upsellMatchOption}" option`,
+        },
+      },
+      { status: 400 }
+    );
   }
 
+  // A running experiment keeps its results unless its products change
+  const sameArms =
+    currentRule.upsells.length === upsellProductIds.length &&
+    currentRule.upsells.every((upsell) => upsellProductIds.includes(upsell.productId));
+  const experimentStartedAt = isExperiment
+    ? (sameArms && currentRule.experimentStartedAt) || new Date()
+    : null;
+
   // Update rule
   await prisma.rule.update({
     where: { id: ruleId },
     data: {
       name: name.trim(),
-      triggerType,
-      triggerProductId: triggerType === "PRODUCT" ? triggerProductId : null,
-      triggerCollectionId: triggerType === "COLLECTION" ? triggerCollectionId : null,
-      triggerProductData,
-      upsellProductId,
-      upsellProductData,
+      type,
+      conditionOperator: conditions.operator,
+      // Conditions are replaced wholesale; the builder always submits the full tree
+      conditionGroups: {
+        deleteMany: {},
+        create: await buildConditionGroupsCreate(admin, conditions),
+      },
+      upsells: {
+        deleteMany: {},
+        create: upsells,
+      },
+      upsellMatchOption: upsellMatchOption || null,
+      excludedProductIds: exclusions.productIds,
+      excludedCollectionIds: exclusions.collectionIds,
+      excludedTags: exclusions.tags,
+      audience: audience.audience,
+      audienceCustomerTags: audience.customerTags,
+      countryCodes,
+      maxImpressionsPerSession: frequencyCaps.perSession,
+      maxImpressionsPerCustomer: frequencyCaps.perCustomer,
+      ...schedule,
+      experimentStartedAt,
+      discountType: discount?.type ?? null,
+      discountValue: discount?.value ?? null,
+      quantityTiers: {
+        deleteMany: {},
+        create: quantityTiers ?? [],
+      },
+      isExclusive,
       isEnabled,
     },
   });
 
+  // Index newly added trigger and excluded collections so the rule matches
+  // right away
+  const previousCollectionIds = currentRule
+    ? [
+        ...getConditionCollectionIds(toConditionsInput(currentRule)),
+        ...currentRule.excludedCollectionIds,
+      ]
+    : [];
+  const collectionIds = new Set([
+    ...getConditionCollectionIds(conditions),
+    ...exclusions.collectionIds,
+  ]);
+
+  for (const collectionId of collectionIds) {
+    if (previousCollectionIds.includes(collectionId)) continue;
+
+    try {
+      await indexCollectionProducts(admin, shopRecord.id, collectionId);
+    } catch (error) {
+      console.error("Error indexing trigger collection:", error);
+    }
+  }
+
+  // Likewise the products with newly added trigger or excluded tags,
+  // vendors and types
+  const previousAttributes = currentRule
+    ? getConditionAttributes(toConditionsInput(currentRule), currentRule.excludedTags)
+    : [];
+
+  for (const attribute of getConditionAttributes(conditions, exclusions.tags)) {
+    if (
+      previousAttributes.some(
+        (previous) => previous.type === attribute.type && previous.value === attribute.value
+      )
+    ) {
+      continue;
+    }
+
+    try {
+      await indexAttributeProducts(admin, shopRecord.id, attribute.type, attribute.value);
+    } catch (error) {
+      console.error("Error indexing trigger attribute:", error);
+    }
+  }
+
+  // Publish discount and gift changes to the discount function
+  if (
+    gift ||
+    currentRule.type === "GIFT" ||
+    discount ||
+    getRuleDiscount(currentRule) ||
+    hasTierSavings(quantityTiers ?? []) ||
+    hasTierSavings(toQuantityTiersInput(currentRule.quantityTiers))
+  ) {
+    try {
+      await syncUpsellDiscount(admin, shopRecord.id);
+    } catch (error) {
+      console.error("Error syncing upsell discount:", error);
+    }
+  }
+
   return redirect("/app/rules");
 };
 
 // Step 2: Pre-populate the form
 export default function EditRule() {
-  const { rule, shop } = useLoaderData<typeof loader>();
+  const { rule, shop, triggerValueOptions, markets } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
-
-  const [triggerType, setTriggerType] = useState<"PRODUCT" | "COLLECTION">(rule.triggerType);
-  const [triggerProductId, setTriggerProductId] = useState(rule.triggerProductId || "");
-  const [triggerCollectionId, setTriggerCollectionId] = useState(rule.triggerCollectionId || "");
-  const [upsellProductId, setUpsellProductId] = useState(rule.upsellProductId);
+  const [type, setType] = useState<RuleTypeKey>(rule.type);
 
   return (
     <s-page
@@ -296,99 +506,217 @@ export default function EditRule() {
               </s-text>
             </div>
 
-            {/* Trigger Type - Pre-selected */}
+            {/* Rule Type */}
+            <div>
+              <s-select
+                name="type"
+                label="Rule type"
+                value={type}
+                onChange={(e) => setType(e.currentTarget.value as RuleTypeKey)}
+              >
+                {(Object.keys(RULE_TYPES) as RuleTypeKey[]).map((key) => (
+                  <option key={key} value={key}>
+                    {RULE_TYPES[key].label}
+                  </option>
+                ))}
+              </s-select>
+              <s-text variant="muted" size="small">
+                Upsell offers are shown in the cart widget. A free gift is added to
+                the cart automatically while the cart matches the trigger, which needs a
+                minimum cart value.
+              </s-text>
+            </div>
+
+            {/* Trigger Conditions - Pre-populated */}
             <div>
               <s-text weight="semibold">Trigger</s-text>
-              <s-text variant="muted">When customer adds this to cart</s-text>
-              <s-stack direction="block" gap="base" style={{ marginTop: "12px" }}>
-                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                  <input
-                    type="radio"
-                    name="triggerType"
-                    value="PRODUCT"
-                    checked={triggerType === "PRODUCT"}
-                    onChange={() => setTriggerType("PRODUCT")}
+              <s-text variant="muted">
+                Show this upsell when the cart matches these conditions
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ConditionBuilder
+                  defaultValue={rule.conditions}
+                  triggerValueOptions={triggerValueOptions}
+                  currencyCode={shop.currencyCode}
+                  error={actionData?.errors?.conditions}
+                />
+              </div>
+            </div>
+
+            {/* Exclusions */}
+            <div>
+              <s-text weight="semibold">Exclusions</s-text>
+              <s-text variant="muted" size="small">
+                Never show this upsell when the cart contains any of these
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ExclusionsEditor defaultValue={rule.exclusions} />
+              </div>
+            </div>
+
+            {/* Audience */}
+            <div>
+              <s-text weight="semibold">Audience</s-text>
+              <s-text variant="muted" size="small">
+                Who should see this upsell
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <AudienceEditor defaultValue={rule.audience} />
+              </div>
+            </div>
+
+            {/* Markets */}
+            <div>
+              <s-text weight="semibold">Markets</s-text>
+              <s-text variant="muted" size="small">
+                Optional. Only show this upsell to visitors in these countries
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <MarketsEditor markets={markets} defaultValue={rule.countryCodes} />
+              </div>
+            </div>
+
+            {/* Schedule */}
+            <div>
+              <s-text weight="semibold">Schedule</s-text>
+              <s-text variant="muted" size="small">
+                Optional. Only show this upsell between these dates and during
+                these days and hours
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ScheduleEditor
+                  defaultValue={rule.schedule}
+                  timeZone={shop.ianaTimezone}
+                  error={actionData?.errors?.schedule}
+                />
+              </div>
+            </div>
+
+            {/* Gift */}
+            {type === "GIFT" && (
+              <div>
+                <s-text weight="semibold">Gift</s-text>
+                <GiftPicker
+                  defaultValue={rule.gift}
+                  defaultTitle={rule.giftTitle}
+                  isAvailable={shop.plan !== "FREE"}
+                  error={actionData?.errors?.gift}
+                />
+              </div>
+            )}
+
+            {type === "UPSELL" && (
+              <>
+              {/* Frequency Caps */}
+              <div>
+                <s-text weight="semibold">Frequency</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Stop showing this upsell once it&apos;s been shown on this many
+                  pages. Customers&apos; views count for {FREQUENCY_CAP_WINDOW_DAYS} days.
+                </s-text>
+                <s-stack direction="inline" gap="base">
+                  <s-number-field
+                    name="maxImpressionsPerSession"
+                    label="Max per session"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
+                    defaultValue={rule.frequencyCaps.perSession?.toString() ?? ""}
                   />
-                  <s-text>Product</s-text>
-                </label>
-                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                  <input
-                    type="radio"
-                    name="triggerType"
-                    value="COLLECTION"
-                    checked={triggerType === "COLLECTION"}
-                    onChange={() => setTriggerType("COLLECTION")}
+                  <s-number-field
+                    name="maxImpressionsPerCustomer"
+                    label="Max per logged-in customer"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
+                    defaultValue={rule.frequencyCaps.perCustomer?.toString() ?? ""}
                   />
-                  <s-text>Collection</s-text>
-                </label>
-              </s-stack>
-            </div>
+                </s-stack>
+                {actionData?.errors?.frequencyCaps && (
+                  <s-text variant="error">{actionData.errors.frequencyCaps}</s-text>
+                )}
+              </div>
 
-            {/* Trigger Product/Collection Picker - Pre-selected */}
-            {triggerType === "PRODUCT" ? (
+              {/* Upsell Products - Pre-selected */}
               <div>
-                <s-text weight="semibold">Select Trigger Product</s-text>
+                <s-text weight="semibold">Upsell Products</s-text>
                 <s-text variant="muted" size="small">
-                  Choose the product that will trigger this upsell
+                  The products to show as upsell recommendations, in order
                 </s-text>
-                <input
-                  type="hidden"
-                  name="triggerProductId"
-                  value={triggerProductId}
+                <UpsellProductList
+                  defaultValue={rule.upsells}
+                  defaultExperiment={rule.isExperiment}
+                  defaultWeights={rule.upsellTrafficWeights}
+                  error={actionData?.errors?.upsellProductIds}
                 />
-                <ProductPickerButton
-                  selectedId={triggerProductId}
-                  onSelect={setTriggerProductId}
-                  label={triggerProductId ? "Change Product" : "Select Product"}
+              </div>
+
+              {/* Upsell Variant Matching */}
+              <div>
+                <s-text weight="semibold">Match Variant Option</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Offer the upsell variant with the same value for this
+                  option as the trigger product in the cart, e.g. Size offers XL
+                  shorts for an XL shirt
+                </s-text>
+                <s-text-field
+                  name="upsellMatchOption"
+                  placeholder="e.g., Size"
+                  maxLength={100}
+                  defaultValue={rule.upsellMatchOption || ""}
                 />
-                {actionData?.errors?.triggerProductId && (
+                {actionData?.errors?.upsellMatchOption && (
                   <s-text variant="error">
-                    {actionData.errors.triggerProductId}
+                    {actionData.errors.upsellMatchOption}
                   </s-text>
                 )}
               </div>
-            ) : (
+
+              {/* Upsell Discount */}
               <div>
-                <s-text weight="semibold">Select Trigger Collection</s-text>
+                <s-text weight="semibold">Upsell Discount</s-text>
                 <s-text variant="muted" size="small">
-                  Choose the collection that will trigger this upsell
+                  Optional. Discount the upsell at checkout when it&apos;s added from the
+                  cart widget
                 </s-text>
-                <input
-                  type="hidden"
-                  name="triggerCollectionId"
-                  value={triggerCollectionId}
+                <DiscountEditor
+                  defaultValue={rule.discount}
+                  currencyCode={shop.currencyCode}
+                  isAvailable={shop.plan !== "FREE"}
+                  error={actionData?.errors?.discount}
                 />
-                <CollectionPickerButton
-                  selectedId={triggerCollectionId}
-                  onSelect={setTriggerCollectionId}
-                  label={triggerCollectionId ? "Change Collection" : "Select Collection"}
+              </div>
+
+              {/* Volume Tiers */}
+              <div>
+                <s-text weight="semibold">Volume Tiers</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Let customers add several units at once, with a discount per
+                  quantity
+                </s-text>
+                <QuantityTiersEditor
+                  defaultValue={rule.quantityTiers}
+                  error={actionData?.errors?.quantityTiers}
                 />
-                {actionData?.errors?.triggerCollectionId && (
-                  <s-text variant="error">
-                    {actionData.errors.triggerCollectionId}
-                  </s-text>
-                )}
               </div>
-            )}
 
-            {/* Upsell Product Picker - Pre-selected */}
-            <div>
-              <s-text weight="semibold">Upsell Product</s-text>
-              <s-text variant="muted" size="small">
-                The product to show as the upsell recommendation
-              </s-text>
-              <input type="hidden" name="upsellProductId" value={upsellProductId} />
-              <ProductPickerButton
-                selectedId={upsellProductId}
-                onSelect={setUpsellProductId}
-                label={upsellProductId ? "Change Upsell Product" : "Select Upsell Product"}
-              />
-              {actionData?.errors?.upsellProductId && (
-                <s-text variant="error">
-                  {actionData.errors.upsellProductId}
+              {/* Exclusive */}
+              <div>
+                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                  <input
+                    type="checkbox"
+                    name="isExclusive"
+                    value="true"
+                    defaultChecked={rule.isExclusive}
+                  />
+                  <s-text weight="semibold">Exclusive</s-text>
+                </label>
+                <s-text variant="muted" size="small">
+                  When this rule matches, show only its offers and hide every other rule&apos;s
                 </s-text>
-              )}
-            </div>
+              </div>
+              </>
+            )}
 
             {/* Enable Rule - Pre-checked */}
             <div>
@@ -403,6 +731,14 @@ export default function EditRule() {
               </label>
             </div>
 
+            {/* Conflicts with other rules */}
+            {actionData?.conflicts && (
+              <RuleConflictsBanner
+                conflicts={actionData.conflicts}
+                isSubmitting={isSubmitting}
+              />
+            )}
+
             {/* Error Messages */}
             {actionData?.errors?.plan && (
               <s-banner variant="critical">
@@ -436,83 +772,6 @@ export default function EditRule() {
   );
 }
 
-function ProductPickerButton({
-  selectedId,
-  onSelect,
-  label,
-}: {
-  selectedId: string;
-  onSelect: (id: string) => void;
-  label: string;
-}) {
-  const handleClick = () => {
-    // Use Shopify App Bridge to open product picker
-    // @ts-ignore
-    if (window.shopify?.resourcePicker) {
-      // @ts-ignore
-      window.shopify.resourcePicker({
-        type: "product",
-        action: "select",
-        filter: {
-          variants: false,
-        },
-      }).then((selection: any) => {
-        if (selection && selection.length > 0) {
-          onSelect(selection[0].id);
-        }
-      });
-    }
-  };
-
-  return (
-    <div style={{ marginTop: "8px" }}>
-      <s-button onClick={handleClick}>{label}</s-button>
-      {selectedId && (
-        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
-          Selected: {selectedId}
-        </s-text>
-      )}
-    </div>
-  );
-}
-
-function CollectionPickerButton({
-  selectedId,
-  onSelect,
-  label,
-}: {
-  selectedId: string;
-  onSelect: (id: string) => void;
-  label: string;
-}) {
-  const handleClick = () => {
-    // Use Shopify App Bridge to open collection picker
-    // @ts-ignore
-    if (window.shopify?.resourcePicker) {
-      // @ts-ignore
-      window.shopify.resourcePicker({
-        type: "collection",
-        action: "select",
-      }).then((selection: any) => {
-        if (selection && selection.length > 0) {
-          onSelect(selection[0].id);
-        }
-      });
-    }
-  };
-
-  return (
-    <div style={{ marginTop: "8px" }}>
-      <s-button onClick={handleClick}>{label}</s-button>
-      {selectedId && (
-        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
-          Selected: {selectedId}
-        </s-text>
-      )}
-    </div>
-  );
-}
-
 export const headers: HeadersFunction = (headersArgs) => {
   return boundary.headers(headersArgs);
 };
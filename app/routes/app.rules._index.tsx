@@ -1,9 +1,63 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
 import { useLoaderData, useFetcher, useSearchParams, redirect } from "react-router";
+import { useEffect, useState } from "react";
 import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
+import type { QuantityTier, Rule } from "@prisma/client";
 import { prisma } from "../db.server";
+import type { AdminGraphqlClient } from "../collections.server";
+import { conditionGroupsInclude, describeConditionLogic } from "../conditions.server";
+import { findRuleConflicts } from "../conflicts.server";
+import {
+  getRuleDiscount,
+  hasTierSavings,
+  quantityTiersInclude,
+  syncUpsellDiscount,
+  toQuantityTiersInput,
+} from "../discounts.server";
+import type { ProductSnapshot } from "../products.server";
+import { upsellsInclude } from "../upsells.server";
+import {
+  SCHEDULE_STATES,
+  describeSchedule,
+  getScheduleState,
+  type ScheduleState,
+} from "../schedules";
+import {
+  CONDITION_OPERATORS,
+  RULE_CONFLICT_TYPES,
+  describeCondition,
+  describeAudience,
+  describeCountries,
+  describeDiscount,
+  describeExclusions,
+  describeFrequencyCaps,
+  describeQuantityTiers,
+  type ConditionOperatorKey,
+  type RuleConflict,
+} from "../rules";
+
+type ConditionRow = Parameters<typeof describeCondition>[0] & {
+  productData: ProductSnapshot | null;
+};
+
+type UpsellRow = {
+  productId: string;
+  productData: ProductSnapshot | null;
+  impressions: number;
+  conversions: number;
+};
+
+type RuleListItem = {
+  id: string;
+  position: number; // 1-based, among all of the shop's rules
+};
+
+type ConditionGroupRow = {
+  operator: ConditionOperatorKey;
+  conditions: ConditionRow[];
+};
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
@@ -15,7 +69,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   });
 
   if (!shopRecord) {
-    return Response.json({ rules: [], shop: { plan: "FREE" } });
+    return Response.json({ rules: [], shop: { plan: "FREE", currencyCode: "USD" } });
   }
 
   // Get search params
@@ -26,6 +80,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   // Build query
   const where: any = {
     shopId: shopRecord.id,
+    isFallback: false,
   };
 
   if (search) {
@@ -43,17 +98,30 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
   const rules = await prisma.rule.findMany({
     where,
     include: {
+      ...conditionGroupsInclude,
+      ...upsellsInclude,
+      ...quantityTiersInclude,
       analytics: {
         select: {
           eventType: true,
+          productId: true,
         },
       },
     },
-    orderBy: {
-      createdAt: "desc",
-    },
+    orderBy: [
+      { priority: "asc" }, // Same order as the offer engine
+      { createdAt: "asc" },
+    ],
   });
 
+  // Conflicts are found across all rules, not just the filtered ones
+  const conflicts = await findRuleConflicts(shopRecord.id);
+
+  // Positions among all rules, so filtered lists show real priorities
+  const allRuleIds = await getOrderedRuleIds(shopRecord.id);
+
+  const now = new Date();
+
   // Calculate stats for each rule
   const rulesWithStats = rules.map((rule) => {
     const impressions = rule.analytics.filter(
@@ -64,16 +132,63 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     ).length;
     const conversionRate =
       impressions > 0 ? ((conversions / impressions) * 100).toFixed(1) : "0.0";
+    const discount = getRuleDiscount(rule);
 
     return {
       id: rule.id,
       name: rule.name,
       isEnabled: rule.isEnabled,
-      triggerType: rule.triggerType,
-      triggerProductId: rule.triggerProductId,
-      triggerCollectionId: rule.triggerCollectionId,
-      triggerProductData: rule.triggerProductData as any,
-      upsellProductData: rule.upsellProductData as any,
+      isExclusive: rule.isExclusive,
+      isExperiment: rule.experimentStartedAt !== null,
+      isGift: rule.type === "GIFT",
+      position: allRuleIds.indexOf(rule.id) + 1,
+      scheduleState: getScheduleState(rule, shopRecord.ianaTimezone, now),
+      scheduleSummary: describeSchedule(rule, shopRecord.ianaTimezone),
+      triggerDescription: describeConditionLogic(rule),
+      conditionOperator: rule.conditionOperator,
+      conditionGroups: rule.conditionGroups.map((group) => ({
+        operator: group.operator,
+        conditions: group.conditions.map((condition) => ({
+          type: condition.type,
+          negate: condition.negate,
+          productId: condition.productId,
+          variantId: condition.variantId,
+          collectionId: condition.collectionId,
+          value: condition.value,
+          minSubtotal: condition.minSubtotal?.toString() ?? null,
+          maxSubtotal: condition.maxSubtotal?.toString() ?? null,
+          minQuantity: condition.minQuantity,
+          productData: condition.productData as ProductSnapshot | null,
+        })),
+      })),
+      upsells: rule.upsells.map((upsell) => ({
+        productId: upsell.productId,
+        productData: upsell.productData as ProductSnapshot | null,
+        impressions: rule.analytics.filter(
+          (a) => a.eventType === "IMPRESSION" && a.productId === upsell.productId
+        ).length,
+        conversions: rule.analytics.filter(
+          (a) => a.eventType === "CONVERSION" && a.productId === upsell.productId
+        ).length,
+      })),
+      upsellMatchOption: rule.upsellMatchOption,
+      audienceSummary: describeAudience({
+        audience: rule.audience,
+        customerTags: rule.audienceCustomerTags,
+      }),
+      countriesSummary: describeCountries(rule.countryCodes),
+      frequencyCapsSummary: describeFrequencyCaps({
+        perSession: rule.maxImpressionsPerSession,
+        perCustomer: rule.maxImpressionsPerCustomer,
+      }),
+      discountSummary: discount ? describeDiscount(discount, shopRecord.currencyCode) : null,
+      quantityTiersSummary: describeQuantityTiers(toQuantityTiersInput(rule.quantityTiers)),
+      exclusionsSummary: describeExclusions({
+        productIds: rule.excludedProductIds,
+        collectionIds: rule.excludedCollectionIds,
+        tags: rule.excludedTags,
+      }),
+      conflicts: conflicts.get(rule.id) || [],
       stats: {
         impressions,
         conversions,
@@ -87,12 +202,48 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     rules: rulesWithStats,
     shop: {
       plan: shopRecord.currentPlan,
+      currencyCode: shopRecord.currencyCode,
+      autoRankEnabled: shopRecord.autoRankEnabled,
     },
   });
 };
 
+// Rule IDs in offer engine order
+async function getOrderedRuleIds(shopId: string): Promise<string[]> {
+  const rules = await prisma.rule.findMany({
+    where: { shopId, isFallback: false },
+    select: { id: true },
+    orderBy: [{ priority: "asc" }, { createdAt: "asc" }],
+  });
+  return rules.map((rule) => rule.id);
+}
+
+// Keep the discount function in step when a gift rule or a rule with a
+// discount changes
+async function syncRuleDiscount(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  rule: Pick<Rule, "type" | "discountType" | "discountValue"> & {
+    quantityTiers: QuantityTier[];
+  }
+) {
+  if (
+    rule.type !== "GIFT" &&
+    !getRuleDiscount(rule) &&
+    !hasTierSavings(toQuantityTiersInput(rule.quantityTiers))
+  ) {
+    return;
+  }
+
+  try {
+    await syncUpsellDiscount(admin, shopId);
+  } catch (error) {
+    console.error("Error syncing upsell discount:", error);
+  }
+}
+
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
+  const { session, admin } = await authenticate.admin(request);
   const shop = session.shop;
 
   const shopRecord = await prisma.shop.findUnique({
@@ -108,18 +259,57 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   const ruleId = formData.get("ruleId") as string;
 
   if (intent === "delete") {
-    await prisma.rule.delete({
+    const rule = await prisma.rule.delete({
       where: { id: ruleId },
+      include: quantityTiersInclude,
     });
+    await syncRuleDiscount(admin, shopRecord.id, rule);
+    return Response.json({ success: true });
+  }
+
+  if (intent === "reorder") {
+    let ruleIds: string[];
+    try {
+      ruleIds = JSON.parse(formData.get("ruleIds") as string);
+    } catch {
+      return Response.json({ error: "Invalid rule order" }, { status: 400 });
+    }
+
+    const allRuleIds = await getOrderedRuleIds(shopRecord.id);
+    if (
+      !Array.isArray(ruleIds) ||
+      new Set(ruleIds).size !== ruleIds.length ||
+      !ruleIds.every((id) => allRuleIds.includes(id))
+    ) {
+      return Response.json({ error: "Invalid rule order" }, { status: 400 });
+    }
+
+    // Reordered rules (possibly a filtered subset) take over the positions
+    // they held between them; all other rules keep theirs
+    const reordered = [...ruleIds];
+    const ordered = allRuleIds.map((id) =>
+      ruleIds.includes(id) ? reordered.shift()! : id
+    );
+
+    await prisma.$transaction(
+      ordered.map((id, index) =>
+        prisma.rule.update({
+          where: { id },
+          data: { priority: index + 1 },
+        })
+      )
+    );
     return Response.json({ success: true });
   }
 
   if (intent === "toggle") {
     const isEnabled = formData.get("isEnabled") === "true";
-    await prisma.rule.update({
+    const rule = await prisma.rule.update({
       where: { id: ruleId },
       data: { isEnabled },
+      include: quantityTiersInclude,
     });
+    await syncRuleDiscount(admin, shopRecord.id, rule);
     return Response.json({ success: true });
   }
 
@@ -129,8 +319,45 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 export default function RulesIndex() {
   const { rules, shop } = useLoaderData<typeof loader>();
   const [searchParams, setSearchParams] = useSearchParams();
+  const reorderFetcher = useFetcher();
   const hasRules = rules.length > 0;
 
+  const listedRules: RuleListItem[] = rules;
+
+  // Rule IDs in their dragged order, reset whenever the list reloads
+  const [order, setOrder] = useState(() => listedRules.map((rule) => rule.id));
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setOrder(listedRules.map((rule) => rule.id));
+  }, [listedRules]);
+
+  const orderedRules = order.flatMap((id) =>
+    listedRules.filter((rule) => rule.id === id)
+  );
+
+  // Dragged rules take over the positions the listed rules held
+  const positions = listedRules.map((rule) => rule.position).sort((a, b) => a - b);
+
+  const handleDragOver = (targetId: string) => {
+    if (!draggedId || draggedId === targetId) return;
+
+    const next = order.filter((id) => id !== draggedId);
+    next.splice(order.indexOf(targetId), 0, draggedId);
+    setOrder(next);
+  };
+
+  const handleDragEnd = () => {
+    setDraggedId(null);
+
+    if (order.some((id, index) => id !== listedRules[index]?.id)) {
+      reorderFetcher.submit(
+        { intent: "reorder", ruleIds: JSON.stringify(order) },
+        { method: "post" }
+      );
+    }
+  };
+
   const handleSearch = (value: string) => {
     const params = new URLSearchParams(searchParams);
     if (value) {
@@ -184,8 +411,38 @@ export default function RulesIndex() {
       {hasRules ? (
         <s-section>
           <s-stack direction="block" gap="base">
-            {rules.map((rule) => (
-              <RuleCard key={rule.id} rule={rule} />
+            {listedRules.length > 1 && (
+              <s-text variant="muted" size="small">
+                {shop.autoRankEnabled
+                  ? "Auto-rank is on, so the best-performing matching rules are offered first. Drag rules to change their priority, which breaks ties between equally scored rules."
+                  : "Drag rules to change their priority. When several rules match a cart, higher rules fill the offer slots first."}
+              </s-text>
+            )}
+            {orderedRules.map((rule, index) => (
+              <div
+                key={rule.id}
+                draggable={listedRules.length > 1}
+                onDragStart={(e) => {
+                  e.dataTransfer.effectAllowed = "move";
+                  setDraggedId(rule.id);
+                }}
+                onDragOver={(e) => {
+                  e.preventDefault();
+                  handleDragOver(rule.id);
+                }}
+                onDrop={(e) => e.preventDefault()}
+                onDragEnd={handleDragEnd}
+                style={{
+                  opacity: draggedId === rule.id ? 0.5 : 1,
+                  cursor: listedRules.length > 1 ? "grab" : undefined,
+                }}
+              >
+                <RuleCard
+                  rule={rule}
+                  position={positions[index]}
+                  currencyCode={shop.currencyCode}
+                />
+              </div>
             ))}
           </s-stack>
         </s-section>
@@ -196,11 +453,40 @@ export default function RulesIndex() {
   );
 }
 
-function RuleCard({ rule }: { rule: any }) {
+// Trigger product title, plus the variant title for VARIANT conditions
+function getConditionTitle(condition: ConditionRow): string | undefined {
+  const title = condition.productData?.title;
+  if (!title || condition.type !== "VARIANT") return title;
+
+  const variant = condition.productData?.variants?.find(
+    (v) => v.id === condition.variantId
+  );
+  return variant ? `${title} – ${variant.title}` : title;
+}
+
+function RuleCard({
+  rule,
+  position,
+  currencyCode,
+}: {
+  rule: any;
+  position: number;
+  currencyCode: string;
+}) {
   const fetcher = useFetcher();
   const isDeleting = fetcher.formData?.get("intent") === "delete";
   const isToggling = fetcher.formData?.get("intent") === "toggle";
 
+  const conditionGroups: ConditionGroupRow[] = rule.conditionGroups;
+  const scheduleState: ScheduleState = rule.scheduleState;
+  const conflicts: RuleConflict[] = rule.conflicts;
+
+  // Show the product card for the common single-product rule
+  const singleCondition =
+    conditionGroups.length === 1 && conditionGroups[0].conditions.length === 1
+      ? conditionGroups[0].conditions[0]
+      : null;
+
   const handleToggle = () => {
     fetcher.submit(
       {
@@ -230,12 +516,52 @@ function RuleCard({ rule }: { rule: any }) {
         {/* Header with name and toggle */}
         <s-stack direction="inline" gap="base" align="center" justify="space-between">
           <s-stack direction="block" gap="tight">
-            <s-heading level="3">{rule.name}</s-heading>
+            <s-stack direction="inline" gap="small-200" alignItems="center">
+              <span aria-hidden="true" style={{ color: "#8c9196" }}>⠿</span>
+              <s-badge>#{position}</s-badge>
+              <s-heading level="3">{rule.name}</s-heading>
+              {rule.isExclusive && <s-badge tone="warning">Exclusive</s-badge>}
+              {rule.isExperiment && <s-badge tone="info">A/B Test</s-badge>}
+              {rule.isGift && <s-badge tone="success">Free Gift</s-badge>}
+              {rule.isEnabled && scheduleState !== "ACTIVE" && (
+                <s-badge tone={scheduleState === "EXPIRED" ? "critical" : "info"}>
+                  {SCHEDULE_STATES[scheduleState].label}
+                </s-badge>
+              )}
+            </s-stack>
             <s-text variant="muted" size="small">
-              {rule.triggerType === "PRODUCT"
-                ? "Triggers when cart contains a specific product"
-                : "Triggers when cart contains item from collection"}
+              {rule.triggerDescription}
             </s-text>
+            {rule.audienceSummary && (
+              <s-text variant="muted" size="small">
+                Audience: {rule.audienceSummary}
+              </s-text>
+            )}
+            {rule.countriesSummary && (
+              <s-text variant="muted" size="small">
+                {rule.countriesSummary}
+              </s-text>
+            )}
+            {rule.frequencyCapsSummary && (
+              <s-text variant="muted" size="small">
+                Max impressions: {rule.frequencyCapsSummary}
+              </s-text>
+            )}
+            {rule.discountSummary && (
+              <s-text variant="muted" size="small">
+                Checkout discount: {rule.discountSummary}
+              </s-text>
+            )}
+            {rule.quantityTiersSummary && (
+              <s-text variant="muted" size="small">
+                Volume tiers: {rule.quantityTiersSummary}
+              </s-text>
+            )}
+            {rule.scheduleSummary && (
+              <s-text variant="muted" size="small">
+                Schedule: {rule.scheduleSummary}
+              </s-text>
+            )}
           </s-stack>
           <s-switch
             checked={rule.isEnabled}
@@ -244,22 +570,37 @@ function RuleCard({ rule }: { rule: any }) {
           />
         </s-stack>
 
+        {/* Conflicts with other rules */}
+        {conflicts.length > 0 && (
+          <s-banner variant="warning">
+            <s-stack direction="block" gap="none">
+              {conflicts.map((conflict, index) => (
+                <s-text key={index}>
+                  {RULE_CONFLICT_TYPES[conflict.type].label}: {conflict.message}
+                </s-text>
+              ))}
+            </s-stack>
+          </s-banner>
+        )}
+
         {/* Rule Flow: Trigger → Upsell */}
         <s-stack direction="inline" gap="large" align="start">
           {/* Left: Trigger */}
           <s-stack direction="block" gap="tight" style={{ flex: 1 }}>
             <s-text size="small" variant="muted" weight="semibold">When customer adds:</s-text>
-            {rule.triggerType === "PRODUCT" && rule.triggerProductData ? (
+            {singleCondition?.type === "PRODUCT" &&
+            !singleCondition.negate &&
+            singleCondition.productData ? (
               <s-stack direction="inline" gap="base" align="start" style={{
                 padding: "0.75rem",
                 background: "#f9fafb",
                 borderRadius: "8px",
                 border: "1px solid #e5e7eb"
               }}>
-                {rule.triggerProductData.image && (
+                {singleCondition.productData.image && (
                   <img
-                    src={rule.triggerProductData.image}
-                    alt={rule.triggerProductData.title}
+                    src={singleCondition.productData.image}
+                    alt={singleCondition.productData.title}
                     style={{
                       width: "50px",
                       height: "50px",
@@ -269,10 +610,15 @@ function RuleCard({ rule }: { rule: any }) {
                   />
                 )}
                 <s-stack direction="block" gap="none" style={{ flex: 1 }}>
-                  <s-text weight="semibold">{rule.triggerProductData.title}</s-text>
+                  <s-text weight="semibold">{singleCondition.productData.title}</s-text>
                   <s-text variant="muted" size="small">
-                    ${(parseFloat(rule.triggerProductData.price) / 100).toFixed(2)}
+                    ${(parseFloat(singleCondition.productData.price || "0") / 100).toFixed(2)}
                   </s-text>
+                  {singleCondition.minQuantity && singleCondition.minQuantity > 1 && (
+                    <s-text variant="muted" size="small">
+                      Quantity {singleCondition.minQuantity}+
+                    </s-text>
+                  )}
                 </s-stack>
               </s-stack>
             ) : (
@@ -282,16 +628,35 @@ function RuleCard({ rule }: { rule: any }) {
                 borderRadius: "8px",
                 border: "1px solid #e5e7eb"
               }}>
-                <s-text variant="muted" size="small">
-                  {rule.triggerType === "PRODUCT" ? "Product" : "Collection"}
-                </s-text>
-                <s-text>
-                  ID: {rule.triggerType === "PRODUCT"
-                    ? rule.triggerProductId?.split('/').pop()
-                    : rule.triggerCollectionId?.split('/').pop()}
-                </s-text>
+                {conditionGroups.map((group, groupIndex) => (
+                  <s-stack key={groupIndex} direction="block" gap="none">
+                    {groupIndex > 0 && (
+                      <s-text variant="muted" size="small" weight="semibold">
+                        {rule.conditionOperator === "OR" ? "OR" : "AND"}
+                      </s-text>
+                    )}
+                    {group.conditions.length > 1 && (
+                      <s-text variant="muted" size="small">
+                        {CONDITION_OPERATORS[group.operator].label} of:
+                      </s-text>
+                    )}
+                    {group.conditions.map((condition, conditionIndex) => (
+                      <s-text key={conditionIndex}>
+                        {describeCondition(
+                          { ...condition, productTitle: getConditionTitle(condition) },
+                          currencyCode
+                        )}
+                      </s-text>
+                    ))}
+                  </s-stack>
+                ))}
               </s-stack>
             )}
+            {rule.exclusionsSummary && (
+              <s-text variant="muted" size="small">
+                Except with: {rule.exclusionsSummary}
+              </s-text>
+            )}
           </s-stack>
 
           {/* Arrow */}
@@ -301,18 +666,20 @@ function RuleCard({ rule }: { rule: any }) {
 
           {/* Right: Upsell */}
           <s-stack direction="block" gap="tight" style={{ flex: 1 }}>
-            <s-text size="small" variant="muted" weight="semibold">Then show upsell:</s-text>
-            {rule.upsellProductData && (
-              <s-stack direction="inline" gap="base" align="start" style={{
+            <s-text size="small" variant="muted" weight="semibold">
+              {rule.isGift ? "Then add free gift:" : "Then show upsells:"}
+            </s-text>
+            {rule.upsells.map((upsell: UpsellRow) => (
+              <s-stack key={upsell.productId} direction="inline" gap="base" align="start" style={{
                 padding: "0.75rem",
                 background: "#f0fdf4",
                 borderRadius: "8px",
                 border: "1px solid #86efac"
               }}>
-                {rule.upsellProductData.image && (
+                {upsell.productData?.image && (
                   <img
-                    src={rule.upsellProductData.image}
-                    alt={rule.upsellProductData.title}
+                    src={upsell.productData.image}
+                    alt={upsell.productData.title}
                     style={{
                       width: "50px",
                       height: "50px",
@@ -322,12 +689,24 @@ function RuleCard({ rule }: { rule: any }) {
                   />
                 )}
                 <s-stack direction="block" gap="none" style={{ flex: 1 }}>
-                  <s-text weight="semibold">{rule.upsellProductData.title}</s-text>
+                  <s-text weight="semibold">
+                    {upsell.productData?.title || upsell.productId.split("/").pop()}
+                  </s-text>
                   <s-text variant="muted" size="small">
-                    ${(parseFloat(rule.upsellProductData.price) / 100).toFixed(2)}
+                    ${(parseFloat(upsell.productData?.price || "0") / 100).toFixed(2)}
                   </s-text>
+                  {!rule.isGift && (
+                    <s-text variant="muted" size="small">
+                      {upsell.impressions} views · {upsell.conversions} conversions
+                    </s-text>
+                  )}
                 </s-stack>
               </s-stack>
+            ))}
+            {rule.upsellMatchOption && (
+              <s-text variant="muted" size="small">
+                Variant matched by {rule.upsellMatchOption}
+              </s-text>
             )}
           </s-stack>
         </s-stack>
@@ -1,10 +1,65 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useState } from "react";
 import { useLoaderData, Form, useActionData, useNavigation, redirect } from "react-router";
 import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
 import { prisma } from "../db.server";
-import { useState } from "react";
+import { indexCollectionProducts } from "../collections.server";
+import {
+  buildConditionGroupsCreate,
+  getConditionAttributes,
+  getConditionCollectionIds,
+  parseAudienceInput,
+  parseExclusionsInput,
+  parseFrequencyCapsInput,
+  isUpsellAlsoTrigger,
+  parseConditionsInput,
+  validateConditions,
+} from "../conditions.server";
+import {
+  findRuleConflicts,
+  hasRestrictions,
+  type AnalyzableRule,
+} from "../conflicts.server";
+import {
+  hasTierSavings,
+  parseDiscountInput,
+  parseQuantityTiers,
+  syncUpsellDiscount,
+  validateDiscount,
+  validateQuantityTiers,
+} from "../discounts.server";
+import { buildGiftUpsellCreate, getGiftThreshold, parseGiftInput } from "../gifts.server";
+import { fetchMarkets, parseCountryCodes } from "../markets.server";
+import { fetchTriggerValueOptions, indexAttributeProducts } from "../products.server";
+import {
+  buildUpsellsCreate,
+  hasMatchOption,
+  parseTrafficWeights,
+  parseUpsellProductIds,
+} from "../upsells.server";
+import {
+  parseScheduleInput,
+  syncShopTimezone,
+  validateSchedule,
+} from "../schedules.server";
+import {
+  FREQUENCY_CAP_WINDOW_DAYS,
+  RULE_TYPES,
+  emptyConditions,
+  type RuleTypeKey,
+} from "../rules";
+import { ConditionBuilder } from "../components/ConditionBuilder";
+import { AudienceEditor } from "../components/AudienceEditor";
+import { ExclusionsEditor } from "../components/ExclusionsEditor";
+import { MarketsEditor } from "../components/MarketsEditor";
+import { RuleConflictsBanner } from "../components/RuleConflictsBanner";
+import { ScheduleEditor } from "../components/ScheduleEditor";
+import { UpsellProductList } from "../components/UpsellProductList";
+import { DiscountEditor } from "../components/DiscountEditor";
+import { GiftPicker } from "../components/GiftPicker";
+import { QuantityTiersEditor } from "../components/QuantityTiersEditor";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -15,7 +70,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     where: { shopifyDomain: shop },
     include: {
       rules: {
-        where: { isEnabled: true },
+        where: { isEnabled: true, isFallback: false },
       },
     },
   });
@@ -32,7 +87,11 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
       plan: shopRecord.currentPlan,
       activeRulesCount: shopRecord.rules.length,
       canCreateRule,
+      currencyCode: shopRecord.currencyCode,
+      ianaTimezone: await syncShopTimezone(admin, shopRecord),
     },
+    triggerValueOptions: await fetchTriggerValueOptions(admin),
+    markets: await fetchMarkets(admin),
   });
 };
 
@@ -44,7 +103,7 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     where: { shopifyDomain: shop },
     include: {
       rules: {
-        where: { isEnabled: true },
+        where: { isEnabled: true, isFallback: false },
       },
     },
   });
@@ -55,11 +114,22 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const formData = await request.formData();
   const name = formData.get("name") as string;
-  const triggerType = formData.get("triggerType") as "PRODUCT" | "COLLECTION";
-  const triggerProductId = formData.get("triggerProductId") as string;
-  const triggerCollectionId = formData.get("triggerCollectionId") as string;
-  const upsellProductId = formData.get("upsellProductId") as string;
+  const type: RuleTypeKey = formData.get("type") === "GIFT" ? "GIFT" : "UPSELL";
+  const gift = type === "GIFT" ? parseGiftInput(formData) : null;
+  const conditions = parseConditionsInput(formData.get("conditions"));
+  const exclusions = parseExclusionsInput(formData);
+  const audience = parseAudienceInput(formData);
+  const countryCodes = parseCountryCodes(formData);
+  const frequencyCaps = parseFrequencyCapsInput(formData);
+  const upsellProductIds = parseUpsellProductIds(formData);
+  const upsellMatchOption = ((formData.get("upsellMatchOption") as string) || "").trim();
+  const isExperiment = formData.get("isExperiment") === "true";
+  const discount = parseDiscountInput(formData);
+  const quantityTiers = parseQuantityTiers(formData);
+  const trafficWeights = isExperiment ? parseTrafficWeights(formData) : {};
+  const schedule = parseScheduleInput(formData, shopRecord.ianaTimezone);
   const isEnabled = formData.get("isEnabled") === "true";
+  const isExclusive = formData.get("isExclusive") === "true";
 
   // Validation
   const errors: any = {};
@@ -68,25 +138,62 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     errors.name = "Rule name is required";
   }
 
-  if (!triggerType) {
-    errors.triggerType = "Trigger type is required";
+  const conditionsError = validateConditions(conditions);
+  if (conditionsError) {
+    errors.conditions = conditionsError;
   }
 
-  if (triggerType === "PRODUCT" && !triggerProductId) {
-    errors.triggerProductId = "Trigger product is required";
+  const scheduleError = validateSchedule(schedule);
+  if (scheduleError) {
+    errors.schedule = scheduleError;
   }
 
-  if (triggerType === "COLLECTION" && !triggerCollectionId) {
-    errors.triggerCollectionId = "Trigger collection is required";
+  if (!frequencyCaps) {
+    errors.frequencyCaps = "Impression caps must be whole numbers of at least 1";
   }
 
-  if (!upsellProductId) {
-    errors.upsellProductId = "Upsell product is required";
+  // Gift rules submit their gift instead of upsell products
+  if (type === "GIFT") {
+    if (shopRecord.currentPlan === "FREE") {
+      errors.gift = "Gift rules are available on the Pro plan";
+    } else if (!gift) {
+      errors.gift = "Select a gift";
+    }
+
+    // Checkout can only check the cart value before making the gift free
+    if (conditions && !errors.conditions && getGiftThreshold(conditions) === null) {
+      errors.conditions = "Gift rules need a minimum cart value that every match requires";
+    }
+  } else if (upsellProductIds.length === 0) {
+    errors.upsellProductIds = "Select at least one upsell product";
   }
 
   // Check if trigger and upsell are the same
-  if (triggerType === "PRODUCT" && triggerProductId === upsellProductId) {
-    errors.upsellProductId = "Trigger and upsell must be different products";
+  if (
+    conditions &&
+    upsellProductIds.some((productId) => isUpsellAlsoTrigger(conditions, productId))
+  ) {
+    errors.upsellProductIds = "Trigger and upsell must be different products";
+  }
+
+  const discountError = validateDiscount(discount);
+  if (discountError) {
+    errors.discount = discountError;
+  } else if (discount && shopRecord.currentPlan === "FREE") {
+    errors.discount = "Upsell discounts are available on the Pro plan";
+  }
+
+  const quantityTiersError = validateQuantityTiers(quantityTiers);
+  if (quantityTiersError) {
+    errors.quantityTiers = quantityTiersError;
+  } else if (hasTierSavings(quantityTiers ?? []) && shopRecord.currentPlan === "FREE") {
+    errors.quantityTiers = "Tier discounts are available on the Pro plan";
+  }
+
+  if (isExperiment && upsellProductIds.length < 2) {
+    errors.upsellProductIds = "Select at least two upsell products to A/B test";
+  } else if (!trafficWeights) {
+    errors.upsellProductIds = "Traffic weights must be whole numbers of at least 1";
   }
 
   // Check plan limits
@@ -98,115 +205,68 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     errors.plan = "Free plan allows only 1 active rule. Upgrade to create more.";
   }
 
-  if (Object.keys(errors).length > 0) {
+  if (Object.keys(errors).length > 0 || !conditions || !schedule || !frequencyCaps) {
     return Response.json({ errors }, { status: 400 });
   }
 
-  // Fetch trigger product data from Shopify (if trigger is PRODUCT)
-  let triggerProductData: any = null;
-  if (triggerType === "PRODUCT" && triggerProductId) {
-    try {
-      const response = await admin.graphql(
-        `#graphql
-          query getProduct($id: ID!) {
-            product(id: $id) {
-              id
-              title
-              featuredImage {
-                url
-              }
-              variants(first: 1) {
-                edges {
-                  node {
-                    price
-                  }
-                }
-              }
-            }
-          }
-        `,
-        {
-          variables: {
-            id: triggerProductId,
-          },
-        }
-      );
-
-      const data = await response.json();
-      const product = data.data?.product;
-
-      if (product) {
-        const variant = product.variants.edges[0]?.node;
-        // Convert price from dollars to cents for consistent storage
-        const priceInCents = variant?.price
-          ? Math.round(parseFloat(variant.price) * 100).toString()
-          : "0";
-        triggerProductData = {
-          title: product.title,
-          image: product.featuredImage?.url || null,
-          price: priceInCents,
-        };
-      }
-    } catch (error) {
-      console.error("Error fetching trigger product data:", error);
+  // New rules go to the end of the priority order
+  const lastRule = await prisma.rule.findFirst({
+    where: { shopId: shopRecord.id, isFallback: false },
+    orderBy: { priority: "desc" },
+  });
+  const priority = (lastRule?.priority ?? 0) + 1;
+
+  // Warn about conflicts with other rules until the merchant confirms
+  if (type === "UPSELL" && formData.get("acknowledgeConflicts") !== "true") {
+    const candidate: AnalyzableRule = {
+      id: "new",
+      name: name.trim(),
+      isEnabled,
+      priority,
+      createdAt: new Date(),
+      conditions,
+      upsellProductIds,
+      isExclusive,
+      isRestricted: hasRestrictions({
+        ...schedule,
+        audience: audience.audience,
+        countryCodes,
+        excludedProductIds: exclusions.productIds,
+        excludedCollectionIds: exclusions.collectionIds,
+        excludedTags: exclusions.tags,
+        maxImpressionsPerSession: frequencyCaps.perSession,
+        maxImpressionsPerCustomer: frequencyCaps.perCustomer,
+      }),
+      isExperiment,
+    };
+
+    const conflicts = (await findRuleConflicts(shopRecord.id, candidate)).get(candidate.id);
+    if (conflicts) {
+      return Response.json({ conflicts }, { status: 400 });
     }
   }
 
-  // Fetch upsell product data from Shopify
-  let upsellProductData: any = null;
+  // Fetch upsell or gift product data from Shopify (reusing cached snapshots)
+  let upsells;
   try {
-    const response = await admin.graphql(
-      `#graphql
-        query getProduct($id: ID!) {
-          product(id: $id) {
-            id
-            title
-            featuredImage {
-              url
-            }
-            variants(first: 1) {
-              edges {
-                node {
-                  id
-                  price
-                  compareAtPrice
-                }
-              }
-            }
-          }
-        }
-      `,
-      {
-        variables: {
-          id: upsellProductId,
-        },
-      }
-    );
-
-    const data = await response.json();
-    const product = data.data?.product;
-
-    if (product) {
-      const variant = product.variants.edges[0]?.node;
-      // Convert prices from dollars to cents for consistent storage
-      const priceInCents = variant?.price
-        ? Math.round(parseFloat(variant.price) * 100).toString()
-        : "0";
-      const compareAtPriceInCents = variant?.compareAtPrice
-        ? Math.round(parseFloat(variant.compareAtPrice) * 100).toString()
-        : null;
-      upsellProductData = {
-        title: product.title,
-        image: product.featuredImage?.url || null,
-        price: priceInCents,
-        compareAtPrice: compareAtPriceInCents,
-        variantId: variant?.id || null,
-      };
-    }
+    upsells = gift
+      ? await buildGiftUpsellCreate(admin, gift)
+      : await buildUpsellsCreate(admin, upsellProductIds, [], trafficWeights ?? {});
   } catch (error) {
     console.error("Error fetching product data:", error);
     return Response.json(
-      { errors: { upsellProductId: "Failed to fetch product data" } },
+      { errors: { [gift ? "gift" : "upsellProductIds"]: "Failed to fetch product data" } },
+      { status: 400 }
+    );
+  }
+
+  if (upsellMatchOption && !hasMatchOption(upsells, upsellMatchOption)) {
+    return Response.json(
+      {
+        errors: {
+          upsellMatchOption: `None of the upsell products has a "${upsellMatchOption}" option`,
+        },
+      },
       { status: 400 }
     );
   }
@@ -216,29 +276,77 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     data: {
       shopId: shopRecord.id,
       name: name.trim(),
-      triggerType,
-      triggerProductId: triggerType === "PRODUCT" ? triggerProductId : null,
-      triggerCollectionId: triggerType === "COLLECTION" ? triggerCollectionId : null,
-      triggerProductData,
-      upsellProductId,
-      upsellProductData,
+      type,
+      conditionOperator: conditions.operator,
+      conditionGroups: {
+        create: await buildConditionGroupsCreate(admin, conditions),
+      },
+      upsells: {
+        create: upsells,
+      },
+      upsellMatchOption: upsellMatchOption || null,
+      excludedProductIds: exclusions.productIds,
+      excludedCollectionIds: exclusions.collectionIds,
+      excludedTags: exclusions.tags,
+      audience: audience.audience,
+      audienceCustomerTags: audience.customerTags,
+      countryCodes,
+      maxImpressionsPerSession: frequencyCaps.perSession,
+      maxImpressionsPerCustomer: frequencyCaps.perCustomer,
+      ...schedule,
+      experimentStartedAt: isExperiment ? new Date() : null,
+      discountType: discount?.type ?? null,
+      discountValue: discount?.value ?? null,
+      quantityTiers: {
+        create: quantityTiers ?? [],
+      },
+      isExclusive,
+      priority,
       isEnabled,
     },
   });
 
+  // Index trigger and excluded collections so the rule matches right away
+  const collectionIds = new Set([
+    ...getConditionCollectionIds(conditions),
+    ...exclusions.collectionIds,
+  ]);
+
+  for (const collectionId of collectionIds) {
+    try {
+      await indexCollectionProducts(admin, shopRecord.id, collectionId);
+    } catch (error) {
+      console.error("Error indexing trigger collection:", error);
+    }
+  }
+
+  // Likewise the products with trigger or excluded tags, vendors and types
+  for (const attribute of getConditionAttributes(conditions, exclusions.tags)) {
+    try {
+      await indexAttributeProducts(admin, shopRecord.id, attribute.type, attribute.value);
+    } catch (error) {
+      console.error("Error indexing trigger attribute:", error);
+    }
+  }
+
+  // Publish the rule's discounts or gift to the discount function
+  if (gift || discount || hasTierSavings(quantityTiers ?? [])) {
+    try {
+      await syncUpsellDiscount(admin, shopRecord.id);
+    } catch (error) {
+      console.error("Error syncing upsell discount:", error);
+    }
+  }
+
   return redirect("/app/rules");
 };
 
 export default function NewRule() {
-  const { shop } = useLoaderData<typeof loader>();
+  const { shop, triggerValueOptions, markets } = useLoaderData<typeof loader>();
   const actionData = useActionData<typeof action>();
   const navigation = useNavigation();
   const isSubmitting = navigation.state === "submitting";
-
-  const [triggerType, setTriggerType] = useState<"PRODUCT" | "COLLECTION">("PRODUCT");
-  const [triggerProductId, setTriggerProductId] = useState("");
-  const [triggerCollectionId, setTriggerCollectionId] = useState("");
-  const [upsellProductId, setUpsellProductId] = useState("");
+  const [type, setType] = useState<RuleTypeKey>("UPSELL");
 
   // Show upgrade modal if plan limit reached
   if (!shop.canCreateRule) {
@@ -270,99 +378,216 @@ export default function NewRule() {
               </s-text>
             </div>
 
-            {/* Trigger Type */}
+            {/* Rule Type */}
+            <div>
+              <s-select
+                name="type"
+                label="Rule type"
+                value={type}
+                onChange={(e) => setType(e.currentTarget.value as RuleTypeKey)}
+              >
+                {(Object.keys(RULE_TYPES) as RuleTypeKey[]).map((key) => (
+                  <option key={key} value={key}>
+                    {RULE_TYPES[key].label}
+                  </option>
+                ))}
+              </s-select>
+              <s-text variant="muted" size="small">
+                Upsell offers are shown in the cart widget. A free gift is added to
+                the cart automatically while the cart matches the trigger, which needs a
+                minimum cart value.
+              </s-text>
+            </div>
+
+            {/* Trigger Conditions */}
             <div>
               <s-text weight="semibold">Trigger</s-text>
-              <s-text variant="muted">When customer adds this to cart</s-text>
-              <s-stack direction="block" gap="base" style={{ marginTop: "12px" }}>
-                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                  <input
-                    type="radio"
-                    name="triggerType"
-                    value="PRODUCT"
-                    checked={triggerType === "PRODUCT"}
-                    onChange={() => setTriggerType("PRODUCT")}
+              <s-text variant="muted">
+                Show this upsell when the cart matches these conditions
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ConditionBuilder
+                  defaultValue={emptyConditions()}
+                  triggerValueOptions={triggerValueOptions}
+                  currencyCode={shop.currencyCode}
+                  error={actionData?.errors?.conditions}
+                />
+              </div>
+            </div>
+
+            {/* Exclusions */}
+            <div>
+              <s-text weight="semibold">Exclusions</s-text>
+              <s-text variant="muted" size="small">
+                Never show this upsell when the cart contains any of these
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ExclusionsEditor defaultValue={{ products: [], collections: [], tags: [] }} />
+              </div>
+            </div>
+
+            {/* Audience */}
+            <div>
+              <s-text weight="semibold">Audience</s-text>
+              <s-text variant="muted" size="small">
+                Who should see this upsell
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <AudienceEditor defaultValue={{ audience: "ALL", customerTags: [] }} />
+              </div>
+            </div>
+
+            {/* Markets */}
+            <div>
+              <s-text weight="semibold">Markets</s-text>
+              <s-text variant="muted" size="small">
+                Optional. Only show this upsell to visitors in these countries
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <MarketsEditor markets={markets} defaultValue={[]} />
+              </div>
+            </div>
+
+            {/* Schedule */}
+            <div>
+              <s-text weight="semibold">Schedule</s-text>
+              <s-text variant="muted" size="small">
+                Optional. Only show this upsell between these dates and during
+                these days and hours
+              </s-text>
+              <div style={{ marginTop: "12px" }}>
+                <ScheduleEditor
+                  defaultValue={{
+                    startsAt: "",
+                    endsAt: "",
+                    days: [],
+                    startHour: null,
+                    endHour: null,
+                  }}
+                  timeZone={shop.ianaTimezone}
+                  error={actionData?.errors?.schedule}
+                />
+              </div>
+            </div>
+
+            {/* Gift */}
+            {type === "GIFT" && (
+              <div>
+                <s-text weight="semibold">Gift</s-text>
+                <GiftPicker
+                  defaultValue={null}
+                  isAvailable={shop.plan !== "FREE"}
+                  error={actionData?.errors?.gift}
+                />
+              </div>
+            )}
+
+            {type === "UPSELL" && (
+              <>
+              {/* Frequency Caps */}
+              <div>
+                <s-text weight="semibold">Frequency</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Stop showing this upsell once it&apos;s been shown on this many
+                  pages. Customers&apos; views count for {FREQUENCY_CAP_WINDOW_DAYS} days.
+                </s-text>
+                <s-stack direction="inline" gap="base">
+                  <s-number-field
+                    name="maxImpressionsPerSession"
+                    label="Max per session"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
                   />
-                  <s-text>Product</s-text>
-                </label>
-                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
-                  <input
-                    type="radio"
-                    name="triggerType"
-                    value="COLLECTION"
-                    checked={triggerType === "COLLECTION"}
-                    onChange={() => setTriggerType("COLLECTION")}
+                  <s-number-field
+                    name="maxImpressionsPerCustomer"
+                    label="Max per logged-in customer"
+                    min={1}
+                    step={1}
+                    placeholder="Unlimited"
                   />
-                  <s-text>Collection</s-text>
-                </label>
-              </s-stack>
-            </div>
+                </s-stack>
+                {actionData?.errors?.frequencyCaps && (
+                  <s-text variant="error">{actionData.errors.frequencyCaps}</s-text>
+                )}
+              </div>
 
-            {/* Trigger Product/Collection Picker */}
-            {triggerType === "PRODUCT" ? (
+              {/* Upsell Products */}
               <div>
-                <s-text weight="semibold">Select Trigger Product</s-text>
+                <s-text weight="semibold">Upsell Products</s-text>
                 <s-text variant="muted" size="small">
-                  Choose the product that will trigger this upsell
+                  The products to show as upsell recommendations, in order
                 </s-text>
-                <input
-                  type="hidden"
-                  name="triggerProductId"
-                  value={triggerProductId}
+                <UpsellProductList
+                  defaultValue={[]}
+                  error={actionData?.errors?.upsellProductIds}
                 />
-                <ProductPickerButton
-                  selectedId={triggerProductId}
-                  onSelect={setTriggerProductId}
-                  label="Select Product"
+              </div>
+
+              {/* Upsell Variant Matching */}
+              <div>
+                <s-text weight="semibold">Match Variant Option</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Offer the upsell variant with the same value for this
+                  option as the trigger product in the cart, e.g. Size offers XL
+                  shorts for an XL shirt
+                </s-text>
+                <s-text-field
+                  name="upsellMatchOption"
+                  placeholder="e.g., Size"
+                  maxLength={100}
                 />
-                {actionData?.errors?.triggerProductId && (
+                {actionData?.errors?.upsellMatchOption && (
                   <s-text variant="error">
-                    {actionData.errors.triggerProductId}
+                    {actionData.errors.upsellMatchOption}
                   </s-text>
                 )}
               </div>
-            ) : (
+
+              {/* Upsell Discount */}
               <div>
-                <s-text weight="semibold">Select Trigger Collection</s-text>
+                <s-text weight="semibold">Upsell Discount</s-text>
                 <s-text variant="muted" size="small">
-                  Choose the collection that will trigger this upsell
+                  Optional. Discount the upsell at checkout when it&apos;s added from the
+                  cart widget
                 </s-text>
-                <input
-                  type="hidden"
-                  name="triggerCollectionId"
-                  value={triggerCollectionId}
+                <DiscountEditor
+                  defaultValue={null}
+                  currencyCode={shop.currencyCode}
+                  isAvailable={shop.plan !== "FREE"}
+                  error={actionData?.errors?.discount}
                 />
-                <CollectionPickerButton
-                  selectedId={triggerCollectionId}
-                  onSelect={setTriggerCollectionId}
-                  label="Select Collection"
+              </div>
+
+              {/* Volume Tiers */}
+              <div>
+                <s-text weight="semibold">Volume Tiers</s-text>
+                <s-text variant="muted" size="small">
+                  Optional. Let customers add several units at once, with a discount per
+                  quantity
+                </s-text>
+                <QuantityTiersEditor
+                  defaultValue={[]}
+                  error={actionData?.errors?.quantityTiers}
                 />
-                {actionData?.errors?.triggerCollectionId && (
-                  <s-text variant="error">
-                    {actionData.errors.triggerCollectionId}
-                  </s-text>
-                )}
               </div>
-            )}
 
-            {/* Upsell Product Picker */}
-            <div>
-              <s-text weight="semibold">Upsell Product</s-text>
-              <s-text variant="muted" size="small">
-                The product to show as the upsell recommendation
-              </s-text>
-              <input type="hidden" name="upsellProductId" value={upsellProductId} />
-              <ProductPickerButton
-                selectedId={upsellProductId}
-                onSelect={setUpsellProductId}
-                label="Select Upsell Product"
-              />
-              {actionData?.errors?.upsellProductId && (
-                <s-text variant="error">
-                  {actionData.errors.upsellProductId}
+              {/* Exclusive */}
+              <div>
+                <label style={{ display: "flex", alignItems: "center", gap: "8px" }}>
+                  <input
+                    type="checkbox"
+                    name="isExclusive"
+                    value="true"
+                  />
+                  <s-text weight="semibold">Exclusive</s-text>
+                </label>
+                <s-text variant="muted" size="small">
+                  When this rule matches, show only its offers and hide every other rule&apos;s
                 </s-text>
-              )}
-            </div>
+              </div>
+              </>
+            )}
 
             {/* Enable Rule */}
             <div>
@@ -387,6 +612,14 @@ export default function NewRule() {
               </s-banner>
             )}
 
+            {/* Conflicts with other rules */}
+            {actionData?.conflicts && (
+              <RuleConflictsBanner
+                conflicts={actionData.conflicts}
+                isSubmitting={isSubmitting}
+              />
+            )}
+
             {/* Error Messages */}
             {actionData?.errors?.plan && (
               <s-banner variant="critical">
@@ -410,83 +643,6 @@ export default function NewRule() {
   );
 }
 
-function ProductPickerButton({
-  selectedId,
-  onSelect,
-  label,
-}: {
-  selectedId: string;
-  onSelect: (id: string) => void;
-  label: string;
-}) {
-  const handleClick = () => {
-    // Use Shopify App Bridge to open product picker
-    // @ts-ignore
-    if (window.shopify?.resourcePicker) {
-      // @ts-ignore
-      window.shopify.resourcePicker({
-        type: "product",
-        action: "select",
-        filter: {
-          variants: false,
-        },
-      }).then((selection: any) => {
-        if (selection && selection.length > 0) {
-          onSelect(selection[0].id);
-        }
-      });
-    }
-  };
-
-  return (
-    <div style={{ marginTop: "8px" }}>
-      <s-button onClick={handleClick}>{label}</s-button>
-      {selectedId && (
-        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
-          Selected: {selectedId}
-        </s-text>
-      )}
-    </div>
-  );
-}
-
-function CollectionPickerButton({
-  selectedId,
-  onSelect,
-  label,
-}: {
-  selectedId: string;
-  onSelect: (id: string) => void;
-  label: string;
-}) {
-  const handleClick = () => {
-    // Use Shopify App Bridge to open collection picker
-    // @ts-ignore
-    if (window.shopify?.resourcePicker) {
-      // @ts-ignore
-      window.shopify.resourcePicker({
-        type: "collection",
-        action: "select",
-      }).then((selection: any) => {
-        if (selection && selection.length > 0) {
-          onSelect(selection[0].id);
-        }
-      });
-    }
-  };
-
-  return (
-    <div style={{ marginTop: "8px" }}>
-      <s-button onClick={handleClick}>{label}</s-button>
-      {selectedId && (
-        <s-text variant="muted" size="small" style={{ marginTop: "4px" }}>
-          Selected: {selectedId}
-        </s-text>
-      )}
-    </div>
-  );
-}
-
 function UpgradeModal({ plan }: { plan: string }) {
   return (
     <s-page heading="Upgrade Required">
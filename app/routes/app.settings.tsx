@@ -1,9 +1,25 @@
 import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useState } from "react";
 import { useLoaderData, Form, useActionData } from "react-router";
 import { authenticate } from "../shopify.server";
 import { boundary } from "@shopify/shopify-app-react-router/server";
 import type { HeadersFunction } from "react-router";
 import { prisma } from "../db.server";
+import { fetchMarketCurrencies } from "../markets.server";
+import {
+  buildProgressMilestonesCreate,
+  parseProgressMilestones,
+  progressMilestonesInclude,
+  toProgressMilestonesInput,
+  validateProgressMilestones,
+} from "../milestones.server";
+import { fetchResourceTitles } from "../products.server";
+import { RANK_LOOKBACK_DAYS, refreshRuleStats } from "../ranking.server";
+import { getFallbackRule } from "../recommendations.server";
+import { MAX_OFFERS_LIMIT } from "../rules";
+import { ExcludedResourceList } from "../components/ExclusionsEditor";
+import { ProgressMilestonesEditor } from "../components/ProgressMilestonesEditor";
+import { MultiProductPickerButton, type PickedResource } from "../components/ResourcePickers";
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session, admin } = await authenticate.admin(request);
@@ -13,7 +29,13 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     where: { shopifyDomain: shop },
     select: {
       freeShippingEnabled: true,
-      freeShippingThreshold: true,
+      ...progressMilestonesInclude,
+      maxOffers: true,
+      autoRankEnabled: true,
+      autoRankMetric: true,
+      fallbackEnabled: true,
+      fallbackIntent: true,
+      fallbackExcludedProductIds: true,
     },
   });
 
@@ -37,12 +59,29 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     console.error("Failed to fetch currency:", error);
   }
 
+  // Resolve titles for the fallback exclusion list
+  const titles = await fetchResourceTitles(admin, shopRecord.fallbackExcludedProductIds);
+
+  // Currencies that can have their own milestone thresholds
+  const marketCurrencies = await fetchMarketCurrencies(admin, currency);
+
   return {
     settings: {
       freeShippingEnabled: shopRecord.freeShippingEnabled,
-      freeShippingThreshold: shopRecord.freeShippingThreshold.toString(),
+      progressMilestones: toProgressMilestonesInput(shopRecord.progressMilestones),
+      maxOffers: shopRecord.maxOffers,
+      autoRankEnabled: shopRecord.autoRankEnabled,
+      autoRankMetric: shopRecord.autoRankMetric,
+      fallbackEnabled: shopRecord.fallbackEnabled,
+      fallbackIntent: shopRecord.fallbackIntent,
+      fallbackExcludedProducts: shopRecord.fallbackExcludedProductIds.map((id) => ({
+        id,
+        title: titles.get(id) || id,
+      })),
     },
     currency,
+    marketCurrencies,
+    rankLookbackDays: RANK_LOOKBACK_DAYS,
   };
 };
 
@@ -52,14 +91,40 @@ export const action = async ({ request }: ActionFunctionArgs) => {
 
   const formData = await request.formData();
   const freeShippingEnabled = formData.get("freeShippingEnabled") === "on";
-  const freeShippingThreshold = parseFloat(formData.get("freeShippingThreshold") as string);
+  const progressMilestones = parseProgressMilestones(formData);
+  const maxOffers = Number(formData.get("maxOffers"));
+  const autoRankEnabled = formData.get("autoRankEnabled") === "on";
+  const autoRankMetric =
+    formData.get("autoRankMetric") === "REVENUE_PER_IMPRESSION"
+      ? "REVENUE_PER_IMPRESSION"
+      : "CONVERSION_RATE";
+  const fallbackEnabled = formData.get("fallbackEnabled") === "on";
+  const fallbackIntent =
+    formData.get("fallbackIntent") === "RELATED" ? "RELATED" : "COMPLEMENTARY";
+  const fallbackExcludedProductIds = [
+    ...new Set(
+      formData
+        .getAll("fallbackExcludedProductIds")
+        .map((value) => String(value).trim())
+        .filter(Boolean)
+    ),
+  ];
 
   try {
-    // Validate threshold
-    if (isNaN(freeShippingThreshold) || freeShippingThreshold < 0) {
+    // Validate progress bar milestones
+    const milestonesError = validateProgressMilestones(progressMilestones);
+    if (milestonesError || !progressMilestones) {
+      return {
+        success: false,
+        error: milestonesError,
+      };
+    }
+
+    // Validate offer limit
+    if (!Number.isInteger(maxOffers) || maxOffers < 1 || maxOffers > MAX_OFFERS_LIMIT) {
       return {
         success: false,
-        error: "Please enter a valid shipping threshold amount.",
+        error: `Maximum offers must be a whole number from 1 to ${MAX_OFFERS_LIMIT}.`,
       };
     }
 
@@ -80,15 +145,38 @@ export const action = async ({ request }: ActionFunctionArgs) => {
     }
 
     // Update shop settings
-    await prisma.shop.update({
+    const shopRecord = await prisma.shop.update({
       where: { shopifyDomain: shop },
       data: {
         freeShippingEnabled,
-        freeShippingThreshold,
+        progressMilestones: {
+          deleteMany: {},
+          create: buildProgressMilestonesCreate(progressMilestones),
+        },
         currencyCode,
+        maxOffers,
+        autoRankEnabled,
+        autoRankMetric,
+        fallbackEnabled,
+        fallbackIntent,
+        fallbackExcludedProductIds,
       },
     });
 
+    // Rank from current stats rather than waiting for the ranking job
+    if (autoRankEnabled) {
+      await refreshRuleStats(shopRecord.id);
+    }
+
+    // Keep the fallback pseudo-rule's status in step for analytics
+    const fallbackRule = await getFallbackRule(shopRecord.id);
+    if (fallbackRule.isEnabled !== fallbackEnabled) {
+      await prisma.rule.update({
+        where: { id: fallbackRule.id },
+        data: { isEnabled: fallbackEnabled },
+      });
+    }
+
     return {
       success: true,
       message: "Settings saved successfully!",
@@ -120,6 +208,10 @@ export default function Settings() {
 
   const currencySymbol = currencySymbols[data.currency] || data.currency;
 
+  const [fallbackExcludedProducts, setFallbackExcludedProducts] = useState<PickedResource[]>(
+    data.settings.fallbackExcludedProducts
+  );
+
   return (
     <s-page heading="Settings">
       {actionData?.error && (
@@ -140,10 +232,11 @@ export default function Settings() {
 
       <s-section>
         <Form method="post">
-          <s-card title="Free Shipping Progress Bar" sectioned>
+          <s-card title="Cart Progress Bar" sectioned>
             <s-stack direction="block" gap="base">
               <s-text appearance="subdued">
-                Show a progress bar in the cart encouraging customers to add more items to reach free shipping.
+                Show a progress bar in the cart encouraging customers to add more items to reach
+                rewards like free shipping, a free gift or a discount.
               </s-text>
 
               <s-divider />
@@ -156,33 +249,143 @@ export default function Settings() {
                     defaultChecked={data.settings.freeShippingEnabled}
                     style={{ marginRight: '8px' }}
                   />
-                  <s-text weight="semibold">Enable free shipping progress bar</s-text>
+                  <s-text weight="semibold">Enable progress bar</s-text>
                 </label>
 
                 <s-stack direction="block" gap="tight">
-                  <s-text weight="semibold">Free Shipping Threshold ({data.currency})</s-text>
+                  <s-text weight="semibold">Milestones ({data.currency})</s-text>
                   <s-text appearance="subdued" size="small">
-                    The minimum cart value needed for free shipping
+                    The cart values customers are working towards. The bar shows a segment
+                    per milestone; set up the shipping rates and discounts they describe in
+                    Shopify. Gift rules add their own milestones.
                   </s-text>
-                  <s-text-field
-                    name="freeShippingThreshold"
-                    type="number"
-                    step="0.01"
-                    min="0"
-                    defaultValue={data.settings.freeShippingThreshold}
-                    prefix={currencySymbol}
+                  <ProgressMilestonesEditor
+                    defaultValue={data.settings.progressMilestones}
+                    currencySymbol={currencySymbol}
+                    marketCurrencies={data.marketCurrencies}
                   />
                 </s-stack>
 
                 <s-banner status="info">
                   <s-stack direction="block" gap="tight">
                     <s-text weight="semibold">Example Messages:</s-text>
-                    <s-text>• "Add {currencySymbol}15.00 more for free shipping!" (when below threshold)</s-text>
-                    <s-text>• "🎉 You've unlocked free shipping!" (when threshold reached)</s-text>
+                    <s-text>• "Add {currencySymbol}15.00 more for free shipping!" (below the next milestone)</s-text>
+                    <s-text>• "🎉 You've unlocked free shipping and 10% off!" (when every milestone is reached)</s-text>
                   </s-stack>
                 </s-banner>
               </s-stack>
 
+            </s-stack>
+          </s-card>
+
+          <s-card title="Offer Limit" sectioned>
+            <s-stack direction="block" gap="base">
+              <s-text appearance="subdued">
+                How many offers the cart shows at most. Rules fill the slots in priority
+                order; an exclusive rule replaces all other offers when it matches.
+              </s-text>
+
+              <s-divider />
+
+              <s-stack direction="block" gap="tight">
+                <s-text weight="semibold">Maximum offers per cart</s-text>
+                <s-text appearance="subdued" size="small">
+                  Theme blocks can set their own limit in the theme editor
+                </s-text>
+                <s-text-field
+                  name="maxOffers"
+                  type="number"
+                  step="1"
+                  min="1"
+                  max={String(MAX_OFFERS_LIMIT)}
+                  defaultValue={String(data.settings.maxOffers)}
+                />
+              </s-stack>
+            </s-stack>
+          </s-card>
+
+          <s-card title="Offer Ranking" sectioned>
+            <s-stack direction="block" gap="base">
+              <s-text appearance="subdued">
+                Instead of following your rule order, offer the rules that perform best
+                first. Scores are based on the last {data.rankLookbackDays} days of
+                analytics, refreshed every hour, and new rules get extra exposure until they
+                have enough data.
+                Rule order still breaks ties.
+              </s-text>
+
+              <s-divider />
+
+              <label>
+                <input
+                  type="checkbox"
+                  name="autoRankEnabled"
+                  defaultChecked={data.settings.autoRankEnabled}
+                  style={{ marginRight: '8px' }}
+                />
+                <s-text weight="semibold">Rank offers automatically</s-text>
+              </label>
+
+              <s-select
+                name="autoRankMetric"
+                label="Rank by"
+                value={data.settings.autoRankMetric}
+              >
+                <option value="CONVERSION_RATE">Conversion rate</option>
+                <option value="REVENUE_PER_IMPRESSION">Revenue per impression</option>
+              </s-select>
+            </s-stack>
+          </s-card>
+
+          <s-card title="Fallback Recommendations" sectioned>
+            <s-stack direction="block" gap="base">
+              <s-text appearance="subdued">
+                When rules leave offer slots empty, fill them with Shopify&apos;s product
+                recommendations for the products in the cart. Fallback offers appear as
+                a separate rule in analytics.
+              </s-text>
+
+              <s-divider />
+
+              <label>
+                <input
+                  type="checkbox"
+                  name="fallbackEnabled"
+                  defaultChecked={data.settings.fallbackEnabled}
+                  style={{ marginRight: '8px' }}
+                />
+                <s-text weight="semibold">Enable fallback recommendations</s-text>
+              </label>
+
+              <s-select
+                name="fallbackIntent"
+                label="Recommendation type"
+                value={data.settings.fallbackIntent}
+              >
+                <option value="COMPLEMENTARY">Complementary (bought together)</option>
+                <option value="RELATED">Related (similar products)</option>
+              </s-select>
+
+              <s-stack direction="block" gap="tight">
+                <s-text weight="semibold">Never recommend</s-text>
+                <ExcludedResourceList
+                  name="fallbackExcludedProductIds"
+                  resources={fallbackExcludedProducts}
+                  onRemove={(id) =>
+                    setFallbackExcludedProducts(
+                      fallbackExcludedProducts.filter((product) => product.id !== id)
+                    )
+                  }
+                />
+                <MultiProductPickerButton
+                  selectedIds={fallbackExcludedProducts.map((product) => product.id)}
+                  onSelect={setFallbackExcludedProducts}
+                  label={
+                    fallbackExcludedProducts.length > 0 ? "Change Products" : "Select Products"
+                  }
+                />
+              </s-stack>
+
               <s-divider />
 
               <s-button type="submit" variant="primary">
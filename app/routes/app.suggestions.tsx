@@ -0,0 +1,305 @@
+import type { LoaderFunctionArgs, ActionFunctionArgs } from "react-router";
+import { useLoaderData, useActionData, useFetcher, Form, redirect } from "react-router";
+import { authenticate } from "../shopify.server";
+import { boundary } from "@shopify/shopify-app-react-router/server";
+import type { HeadersFunction } from "react-router";
+import { prisma } from "../db.server";
+import { fetchResourceTitles } from "../products.server";
+import {
+  ORDERS_SCOPE,
+  ORDER_LOOKBACK_DAYS,
+  createRuleFromSuggestion,
+  refreshPurchaseSuggestions,
+} from "../suggestions.server";
+
+type SuggestionRow = {
+  id: string;
+  productTitle: string;
+  pairedProductTitle: string;
+  orderCount: number;
+  support: number;
+  confidence: number;
+};
+
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, admin, scopes } = await authenticate.admin(request);
+
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopifyDomain: session.shop },
+  });
+
+  if (!shopRecord) {
+    throw new Error("Shop not found");
+  }
+
+  const { granted } = await scopes.query();
+  const hasOrdersAccess = granted.includes(ORDERS_SCOPE);
+  const isActive = shopRecord.purchaseSuggestionsEnabled && hasOrdersAccess;
+
+  const suggestions = isActive
+    ? await prisma.purchaseSuggestion.findMany({
+        where: { shopId: shopRecord.id, status: "OPEN" },
+        orderBy: [{ confidence: "desc" }, { support: "desc" }],
+      })
+    : [];
+
+  const titles = await fetchResourceTitles(admin, [
+    ...new Set(
+      suggestions.flatMap((suggestion) => [
+        suggestion.productId,
+        suggestion.pairedProductId,
+      ])
+    ),
+  ]);
+
+  const rows: SuggestionRow[] = suggestions
+    // Skip pairs whose products were deleted since the last refresh
+    .filter(
+      (suggestion) =>
+        titles.has(suggestion.productId) && titles.has(suggestion.pairedProductId)
+    )
+    .map((suggestion) => ({
+      id: suggestion.id,
+      productTitle: titles.get(suggestion.productId) as string,
+      pairedProductTitle: titles.get(suggestion.pairedProductId) as string,
+      orderCount: suggestion.orderCount,
+      support: suggestion.support,
+      confidence: suggestion.confidence,
+    }));
+
+  return {
+    isActive,
+    syncedAt: shopRecord.purchaseSuggestionsSyncedAt?.toISOString() ?? null,
+    orderCount: shopRecord.purchaseSuggestionsOrderCount,
+    lookbackDays: ORDER_LOOKBACK_DAYS,
+    suggestions: rows,
+  };
+};
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin, scopes } = await authenticate.admin(request);
+
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopifyDomain: session.shop },
+  });
+
+  if (!shopRecord) {
+    return Response.json({ error: "Shop not found" }, { status: 404 });
+  }
+
+  const formData = await request.formData();
+  const intent = formData.get("intent");
+  const suggestionId = formData.get("suggestionId") as string;
+
+  if (intent === "enable") {
+    await prisma.shop.update({
+      where: { id: shopRecord.id },
+      data: { purchaseSuggestionsEnabled: true },
+    });
+
+    // Redirects to Shopify's consent screen unless read_orders is granted
+    await scopes.request([ORDERS_SCOPE]);
+
+    try {
+      await refreshPurchaseSuggestions(admin, shopRecord.id);
+    } catch (error) {
+      console.error("Error refreshing suggestions:", error);
+    }
+    return Response.json({ success: true });
+  }
+
+  if (intent === "disable") {
+    await prisma.shop.update({
+      where: { id: shopRecord.id },
+      data: { purchaseSuggestionsEnabled: false },
+    });
+    await prisma.purchaseSuggestion.deleteMany({
+      where: { shopId: shopRecord.id, status: "OPEN" },
+    });
+
+    try {
+      await scopes.revoke([ORDERS_SCOPE]);
+    } catch (error) {
+      console.error("Error revoking read_orders:", error);
+    }
+    return Response.json({ success: true });
+  }
+
+  if (intent === "refresh") {
+    try {
+      const summary = await refreshPurchaseSuggestions(admin, shopRecord.id);
+      return Response.json({ success: true, ...summary });
+    } catch (error) {
+      console.error("Error refreshing suggestions:", error);
+      return Response.json(
+        { error: "Couldn't read your orders. Try turning suggestions off and on again." },
+        { status: 500 }
+      );
+    }
+  }
+
+  if (intent === "create") {
+    let ruleId;
+    try {
+      ruleId = await createRuleFromSuggestion(admin, shopRecord.id, suggestionId);
+    } catch (error) {
+      console.error("Error creating rule from suggestion:", error);
+      return Response.json({ error: "Failed to fetch product data" }, { status: 500 });
+    }
+
+    if (!ruleId) {
+      return Response.json({ error: "Suggestion not found" }, { status: 404 });
+    }
+    return redirect(`/app/rules/${ruleId}/edit`);
+  }
+
+  if (intent === "dismiss") {
+    await prisma.purchaseSuggestion.updateMany({
+      where: { id: suggestionId, shopId: shopRecord.id },
+      data: { status: "DISMISSED" },
+    });
+    return Response.json({ success: true });
+  }
+
+  return Response.json({ error: "Invalid intent" }, { status: 400 });
+};
+
+export default function Suggestions() {
+  const { isActive, syncedAt, orderCount, lookbackDays, suggestions } =
+    useLoaderData<typeof loader>();
+  const actionData = useActionData<typeof action>();
+
+  if (!isActive) {
+    return (
+      <s-page heading="Frequently Bought Together">
+        <s-section>
+          <s-stack direction="block" gap="base">
+            <s-text>
+              Find products your customers already buy together and turn them into
+              upsell rules with one click. Suggestions are based on your orders from
+              the last {lookbackDays} days and refreshed regularly.
+            </s-text>
+            <s-text variant="muted" size="small">
+              Shopify will ask you to allow this app to read your orders. Order data is
+              only used to compute suggestions.
+            </s-text>
+            <Form method="post">
+              <input type="hidden" name="intent" value="enable" />
+              <s-button type="submit" variant="primary">
+                Turn On Suggestions
+              </s-button>
+            </Form>
+          </s-stack>
+        </s-section>
+      </s-page>
+    );
+  }
+
+  return (
+    <s-page heading="Frequently Bought Together">
+      {actionData?.error && (
+        <s-section>
+          <s-banner variant="critical">
+            <s-text>{actionData.error}</s-text>
+          </s-banner>
+        </s-section>
+      )}
+
+      <s-section>
+        <s-stack direction="inline" gap="base" align="center" justify="space-between">
+          <s-text variant="muted">
+            {syncedAt
+              ? `Based on ${orderCount.toLocaleString()} orders from the last ${lookbackDays} days. Updated ${new Date(syncedAt).toLocaleString()}.`
+              : "Your orders haven't been analyzed yet."}
+          </s-text>
+          <s-stack direction="inline" gap="base">
+            <Form method="post">
+              <input type="hidden" name="intent" value="refresh" />
+              <s-button type="submit">Refresh Now</s-button>
+            </Form>
+            <Form method="post">
+              <input type="hidden" name="intent" value="disable" />
+              <s-button type="submit" variant="tertiary">
+                Turn Off
+              </s-button>
+            </Form>
+          </s-stack>
+        </s-stack>
+      </s-section>
+
+      <s-section heading="Suggested Rules">
+        {suggestions.length > 0 ? (
+          <s-table>
+            <table>
+              <thead>
+                <tr>
+                  <th>When customer adds</th>
+                  <th>Offer</th>
+                  <th style={{ textAlign: "right" }}>Orders Together</th>
+                  <th style={{ textAlign: "right" }}>Support</th>
+                  <th style={{ textAlign: "right" }}>Confidence</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {suggestions.map((suggestion) => (
+                  <SuggestionTableRow key={suggestion.id} suggestion={suggestion} />
+                ))}
+              </tbody>
+            </table>
+          </s-table>
+        ) : (
+          <s-text variant="muted">
+            No product pairs stand out in your recent orders yet. Suggestions appear
+            once products are regularly bought together.
+          </s-text>
+        )}
+        <s-text variant="muted" size="small">
+          Support is the share of all orders that contain both products. Confidence
+          is the share of orders with the first product that also contain the second.
+        </s-text>
+      </s-section>
+    </s-page>
+  );
+}
+
+function SuggestionTableRow({ suggestion }: { suggestion: SuggestionRow }) {
+  const fetcher = useFetcher();
+  const isCreating = fetcher.formData?.get("intent") === "create";
+  const isDismissing = fetcher.formData?.get("intent") === "dismiss";
+
+  const submit = (intent: string) =>
+    fetcher.submit({ intent, suggestionId: suggestion.id }, { method: "post" });
+
+  return (
+    <tr>
+      <td>{suggestion.productTitle}</td>
+      <td>{suggestion.pairedProductTitle}</td>
+      <td style={{ textAlign: "right" }}>{suggestion.orderCount.toLocaleString()}</td>
+      <td style={{ textAlign: "right" }}>{(suggestion.support * 100).toFixed(1)}%</td>
+      <td style={{ textAlign: "right" }}>{(suggestion.confidence * 100).toFixed(1)}%</td>
+      <td>
+        <s-stack direction="inline" gap="small-200">
+          <s-button
+            variant="primary"
+            onClick={() => submit("create")}
+            {...(isCreating ? { loading: true } : {})}
+          >
+            Create Rule
+          </s-button>
+          <s-button
+            variant="tertiary"
+            onClick={() => submit("dismiss")}
+            {...(isDismissing ? { loading: true } : {})}
+          >
+            Dismiss
+          </s-button>
+        </s-stack>
+      </td>
+    </tr>
+  );
+}
+
+export const headers: HeadersFunction = (headersArgs) => {
+  return boundary.headers(headersArgs);
+};
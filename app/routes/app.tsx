@@ -20,6 +20,7 @@ export default function App() {
       <s-app-nav>
         <s-link href="/app">Dashboard</s-link>
         <s-link href="/app/rules">Rules</s-link>
+        <s-link href="/app/suggestions">Suggestions</s-link>
         <s-link href="/app/analytics">Analytics</s-link>
       </s-app-nav>
       <Outlet />
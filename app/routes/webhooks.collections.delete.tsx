@@ -0,0 +1,23 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { removeCollectionFromIndex, toCollectionGid } from "../collections.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const shopRecord = await db.shop.findUnique({
+    where: { shopifyDomain: shop },
+  });
+
+  if (shopRecord) {
+    await removeCollectionFromIndex(
+      shopRecord.id,
+      toCollectionGid(payload.id as number)
+    );
+  }
+
+  return new Response();
+};
@@ -0,0 +1,29 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { indexCollectionProducts, toCollectionGid } from "../collections.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, admin, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  // No admin context means the app was uninstalled; nothing to index.
+  if (!admin) {
+    return new Response();
+  }
+
+  const shopRecord = await db.shop.findUnique({
+    where: { shopifyDomain: shop },
+  });
+
+  if (shopRecord) {
+    await indexCollectionProducts(
+      admin,
+      shopRecord.id,
+      toCollectionGid(payload.id as number)
+    );
+  }
+
+  return new Response();
+};
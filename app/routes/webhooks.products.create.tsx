@@ -0,0 +1,3 @@
+// New products are indexed the same way as updated ones, so rules with tag,
+// vendor or product type triggers match them before their first update
+export { action } from "./webhooks.products.update";
@@ -0,0 +1,21 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { toProductGid } from "../collections.server";
+import { removeProductFromIndex } from "../products.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const shopRecord = await db.shop.findUnique({
+    where: { shopifyDomain: shop },
+  });
+
+  if (shopRecord) {
+    await removeProductFromIndex(shopRecord.id, toProductGid(payload.id as number));
+  }
+
+  return new Response();
+};
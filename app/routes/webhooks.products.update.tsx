@@ -0,0 +1,36 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import db from "../db.server";
+import { indexProductCollections } from "../collections.server";
+import { indexProductAttributes } from "../products.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, admin, payload, topic } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  const shopRecord = await db.shop.findUnique({
+    where: { shopifyDomain: shop },
+  });
+
+  if (!shopRecord) {
+    return new Response();
+  }
+
+  const productGid = payload.admin_graphql_api_id as string;
+
+  // Tags, vendor and product type come straight from the payload
+  await indexProductAttributes(shopRecord.id, productGid, {
+    tags: ((payload.tags as string) || "").split(","),
+    vendor: payload.vendor as string | null,
+    productType: payload.product_type as string | null,
+  });
+
+  // Collections aren't in the payload; no admin context means the app was
+  // uninstalled, so there's nothing to look them up with.
+  if (admin) {
+    await indexProductCollections(admin, shopRecord.id, productGid);
+  }
+
+  return new Response();
+};
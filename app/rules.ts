@@ -0,0 +1,397 @@
+/**
+ * Rule Configuration (Client-safe)
+ *
+ * Constants and helpers shared by the rule forms, the rules list and the
+ * server-side offer engine
+ */
+
+export const TRIGGER_TYPES = {
+  PRODUCT: {
+    label: "Product",
+    description: "Triggers when cart contains a specific product",
+  },
+  VARIANT: {
+    label: "Product variant",
+    description: "Triggers when cart contains a specific variant",
+  },
+  COLLECTION: {
+    label: "Collection",
+    description: "Triggers when cart contains item from collection",
+  },
+  TAG: {
+    label: "Product tag",
+    description: "Triggers when cart contains a product with this tag",
+  },
+  VENDOR: {
+    label: "Vendor",
+    description: "Triggers when cart contains a product from this vendor",
+  },
+  PRODUCT_TYPE: {
+    label: "Product type",
+    description: "Triggers when cart contains a product of this type",
+  },
+  CART_VALUE: {
+    label: "Cart value",
+    description: "Triggers when the cart subtotal is within a range",
+  },
+} as const;
+
+export type TriggerTypeKey = keyof typeof TRIGGER_TYPES;
+
+/**
+ * Trigger types matched against a product attribute stored in `Condition.value`
+ */
+export const ATTRIBUTE_TRIGGER_TYPES = ["TAG", "VENDOR", "PRODUCT_TYPE"] as const;
+
+export type AttributeTriggerType = (typeof ATTRIBUTE_TRIGGER_TYPES)[number];
+
+export function isAttributeTrigger(
+  triggerType: string
+): triggerType is AttributeTriggerType {
+  return (ATTRIBUTE_TRIGGER_TYPES as readonly string[]).includes(triggerType);
+}
+
+/**
+ * Trigger types that can require a minimum cart quantity, e.g. "3+ items
+ * from the Paint collection"
+ */
+export const QUANTITY_TRIGGER_TYPES = ["PRODUCT", "COLLECTION", "TAG"] as const;
+
+export function supportsMinQuantity(triggerType: string): boolean {
+  return (QUANTITY_TRIGGER_TYPES as readonly string[]).includes(triggerType);
+}
+
+/**
+ * Describe a CART_VALUE trigger's bounds, e.g. "30.00 – 49.99 USD"
+ */
+export function formatSubtotalRange(
+  min: string | null,
+  max: string | null,
+  currency: string
+): string {
+  if (min && max) return `${min} – ${max} ${currency}`;
+  if (min) return `${min} ${currency} or more`;
+  if (max) return `Up to ${max} ${currency}`;
+  return "Any subtotal";
+}
+
+export const RULE_TYPES = {
+  UPSELL: { label: "Upsell offer" },
+  GIFT: { label: "Free gift" },
+} as const;
+
+export type RuleTypeKey = keyof typeof RULE_TYPES;
+
+/**
+ * The gift variant of a GIFT rule, as picked in the rule forms
+ */
+export interface RuleGiftInput {
+  productId: string; // Shopify product GID
+  variantId: string; // Shopify variant GID
+}
+
+export const CONDITION_OPERATORS = {
+  AND: { label: "All", description: "all" },
+  OR: { label: "Any", description: "any" },
+} as const;
+
+export type ConditionOperatorKey = keyof typeof CONDITION_OPERATORS;
+
+/**
+ * A trigger condition as edited in the condition builder
+ */
+export interface ConditionInput {
+  type: TriggerTypeKey;
+  negate: boolean;
+  productId: string;
+  variantId: string;
+  collectionId: string;
+  value: string;
+  minSubtotal: string;
+  maxSubtotal: string;
+  minQuantity: string; // Empty = any quantity
+}
+
+export interface ConditionGroupInput {
+  operator: ConditionOperatorKey;
+  conditions: ConditionInput[];
+}
+
+/**
+ * A rule's full condition tree, submitted as JSON by the rule forms
+ */
+export interface RuleConditionsInput {
+  operator: ConditionOperatorKey;
+  groups: ConditionGroupInput[];
+}
+
+export function emptyCondition(type: TriggerTypeKey = "PRODUCT"): ConditionInput {
+  return {
+    type,
+    negate: false,
+    productId: "",
+    variantId: "",
+    collectionId: "",
+    value: "",
+    minSubtotal: "",
+    maxSubtotal: "",
+    minQuantity: "",
+  };
+}
+
+export function emptyConditions(): RuleConditionsInput {
+  return {
+    operator: "AND",
+    groups: [{ operator: "AND", conditions: [emptyCondition()] }],
+  };
+}
+
+/**
+ * Describe a single condition, e.g. "NOT Product tag: summer" or
+ * "Collection: ID 123 (3+)"
+ */
+export function describeCondition(
+  condition: Pick<
+    ConditionInput,
+    "type" | "negate" | "productId" | "variantId" | "collectionId" | "value"
+  > & {
+    minSubtotal: string | null;
+    maxSubtotal: string | null;
+    minQuantity?: number | null;
+    productTitle?: string | null;
+  },
+  currency: string
+): string {
+  const label = TRIGGER_TYPES[condition.type].label;
+  let detail: string;
+
+  switch (condition.type) {
+    case "PRODUCT":
+      detail =
+        condition.productTitle ||
+        `ID ${condition.productId?.split("/").pop()}`;
+      break;
+    case "VARIANT":
+      detail =
+        condition.productTitle ||
+        `ID ${condition.variantId?.split("/").pop()}`;
+      break;
+    case "COLLECTION":
+      detail = `ID ${condition.collectionId?.split("/").pop()}`;
+      break;
+    case "CART_VALUE":
+      detail = formatSubtotalRange(
+        condition.minSubtotal,
+        condition.maxSubtotal,
+        currency
+      );
+      break;
+    default:
+      detail = condition.value;
+  }
+
+  if (condition.minQuantity && condition.minQuantity > 1) {
+    detail += ` (${condition.minQuantity}+)`;
+  }
+
+  return `${condition.negate ? "NOT " : ""}${label}: ${detail}`;
+}
+
+/**
+ * Per-rule exclusion lists: the rule never offers when the cart contains
+ * any of these products, collection members or tags
+ */
+export interface RuleExclusionsInput {
+  productIds: string[];
+  collectionIds: string[];
+  tags: string[];
+}
+
+/**
+ * Summarize a rule's exclusions, e.g. "2 products, tags: bundle, gift"
+ *
+ * @returns Summary, or null if the rule has no exclusions
+ */
+export function describeExclusions(exclusions: RuleExclusionsInput): string | null {
+  const plural = (count: number, noun: string) =>
+    `${count} ${noun}${count === 1 ? "" : "s"}`;
+
+  const parts = [
+    exclusions.productIds.length > 0 && plural(exclusions.productIds.length, "product"),
+    exclusions.collectionIds.length > 0 &&
+      plural(exclusions.collectionIds.length, "collection"),
+    exclusions.tags.length > 0 && `tags: ${exclusions.tags.join(", ")}`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export const AUDIENCES = {
+  ALL: { label: "Everyone" },
+  FIRST_TIME: { label: "First-time visitors" },
+  GUESTS: { label: "Guests (not logged in)" },
+  CUSTOMERS: { label: "Logged-in customers" },
+} as const;
+
+export type AudienceKey = keyof typeof AUDIENCES;
+
+/**
+ * Who a rule is shown to; customer tags only apply to CUSTOMERS
+ */
+export interface RuleAudienceInput {
+  audience: AudienceKey;
+  customerTags: string[];
+}
+
+/**
+ * Summarize a rule's audience, e.g. "Logged-in customers tagged vip, wholesale"
+ *
+ * @returns Summary, or null if the rule is shown to everyone
+ */
+export function describeAudience(audience: RuleAudienceInput): string | null {
+  if (audience.audience === "ALL") return null;
+
+  const label = AUDIENCES[audience.audience].label;
+  return audience.audience === "CUSTOMERS" && audience.customerTags.length > 0
+    ? `${label} tagged ${audience.customerTags.join(", ")}`
+    : label;
+}
+
+/**
+ * A Shopify Market and the countries it covers, for the rule forms
+ */
+export interface MarketOption {
+  id: string;
+  name: string;
+  countries: { code: string; name: string }[];
+}
+
+/**
+ * Summarize a rule's country restriction, e.g. "Countries: DE, FR"
+ *
+ * @returns Summary, or null if the rule applies in every country
+ */
+export function describeCountries(countryCodes: string[]): string | null {
+  if (countryCodes.length === 0) return null;
+  return `${countryCodes.length === 1 ? "Country" : "Countries"}: ${countryCodes.join(", ")}`;
+}
+
+// Impressions and dismissals older than this no longer count, so a
+// customer who hit a cap or dismissed an offer sees it again eventually
+export const FREQUENCY_CAP_WINDOW_DAYS = 30;
+
+/**
+ * Per-rule impression caps, counted in page views; null means unlimited
+ */
+export interface RuleFrequencyCapsInput {
+  perSession: number | null;
+  perCustomer: number | null;
+}
+
+/**
+ * Summarize a rule's frequency caps, e.g. "3 per session, 10 per customer
+ * in 30 days"
+ *
+ * @returns Summary, or null if the rule is uncapped
+ */
+export function describeFrequencyCaps(caps: RuleFrequencyCapsInput): string | null {
+  const parts = [
+    caps.perSession !== null && `${caps.perSession} per session`,
+    caps.perCustomer !== null &&
+      `${caps.perCustomer} per customer in ${FREQUENCY_CAP_WINDOW_DAYS} days`,
+  ].filter(Boolean);
+
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+export const RULE_CONFLICT_TYPES = {
+  DUPLICATE_TRIGGER: { label: "Duplicate trigger" },
+  SHADOWED: { label: "Hidden by other rules" },
+  UPSELL_IS_TRIGGER: { label: "Upsell is trigger" },
+} as const;
+
+export type RuleConflictType = keyof typeof RULE_CONFLICT_TYPES;
+
+/**
+ * A problem found by comparing a rule with the shop's other rules
+ */
+export interface RuleConflict {
+  type: RuleConflictType;
+  message: string;
+  relatedRuleIds: string[]; // Other rules involved in the conflict
+}
+
+/**
+ * Most offers a single cart can show, for the shop setting and theme
+ * block overrides
+ */
+export const MAX_OFFERS_LIMIT = 10;
+
+export const UPSELL_DISCOUNT_TYPES = {
+  PERCENTAGE: { label: "Percentage off" },
+  FIXED_AMOUNT: { label: "Fixed amount off each item" },
+} as const;
+
+export type UpsellDiscountTypeKey = keyof typeof UPSELL_DISCOUNT_TYPES;
+
+/**
+ * Discount applied at checkout to upsells added through the widget;
+ * FIXED_AMOUNT values are in the shop currency
+ */
+export interface RuleDiscountInput {
+  type: UpsellDiscountTypeKey;
+  value: number;
+}
+
+/**
+ * Summarize a rule's discount, e.g. "15% off" or "5.00 USD off"
+ */
+export function describeDiscount(discount: RuleDiscountInput, currency: string): string {
+  return discount.type === "PERCENTAGE"
+    ? `${discount.value}% off`
+    : `${discount.value.toFixed(2)} ${currency} off`;
+}
+
+/**
+ * Price of an upsell after its rule's discount, in cents like the cached
+ * product prices
+ */
+export function applyDiscount(price: string, discount: RuleDiscountInput): string {
+  const cents = parseFloat(price) || 0;
+  const discounted =
+    discount.type === "PERCENTAGE"
+      ? cents * (1 - discount.value / 100)
+      : cents - discount.value * 100;
+  return String(Math.max(0, Math.round(discounted)));
+}
+
+/**
+ * Most quantity tiers a rule can offer
+ */
+export const MAX_QUANTITY_TIERS = 4;
+
+/**
+ * A volume offer: add this many units of the upsell at once for a
+ * percentage off each. Tiers without savings just offer the quantity.
+ */
+export interface QuantityTierInput {
+  quantity: number;
+  discountPercent: number;
+}
+
+/**
+ * Summarize a rule's quantity tiers, e.g. "Buy 2, save 10%; Buy 3, save 15%"
+ *
+ * @returns Summary, or null if the rule has no tiers
+ */
+export function describeQuantityTiers(tiers: QuantityTierInput[]): string | null {
+  if (tiers.length === 0) return null;
+
+  return tiers
+    .map((tier) =>
+      tier.discountPercent > 0
+        ? `Buy ${tier.quantity}, save ${tier.discountPercent}%`
+        : `Buy ${tier.quantity}`
+    )
+    .join("; ");
+}
@@ -0,0 +1,124 @@
+import { prisma } from "./db.server";
+import type { AdminGraphqlClient } from "./collections.server";
+import { fromZonedInputValue, type RuleSchedule } from "./schedules";
+
+/**
+ * Rule Schedules (Server)
+ *
+ * Shop timezone sync and parsing of the schedule fields on the rule forms
+ */
+
+/**
+ * Refresh the shop's stored timezone from Shopify
+ *
+ * Falls back to the stored timezone if Shopify can't be reached.
+ *
+ * @returns The shop's IANA timezone
+ */
+export async function syncShopTimezone(
+  admin: AdminGraphqlClient,
+  shop: { id: string; ianaTimezone: string }
+): Promise<string> {
+  try {
+    const response = await admin.graphql(`
+      query {
+        shop {
+          ianaTimezone
+        }
+      }
+    `);
+    const data = await response.json();
+    const ianaTimezone: string | undefined = data?.data?.shop?.ianaTimezone;
+
+    if (ianaTimezone && ianaTimezone !== shop.ianaTimezone) {
+      await prisma.shop.update({
+        where: { id: shop.id },
+        data: { ianaTimezone },
+      });
+    }
+
+    return ianaTimezone || shop.ianaTimezone;
+  } catch (error) {
+    console.error("Failed to fetch shop timezone:", error);
+    return shop.ianaTimezone;
+  }
+}
+
+/**
+ * Read the schedule fields submitted by the rule forms
+ *
+ * Dates arrive as datetime-local values in the shop's timezone, days as
+ * repeated "scheduleDays" fields and hours as "" (all day) or a number.
+ *
+ * @returns Parsed schedule, or null if a date or hour is malformed
+ */
+export function parseScheduleInput(
+  formData: FormData,
+  timeZone: string
+): RuleSchedule | null {
+  const parseDate = (name: string): Date | null | undefined => {
+    const value = String(formData.get(name) || "").trim();
+    if (!value) return null;
+    return fromZonedInputValue(value, timeZone) ?? undefined;
+  };
+
+  const parseHour = (name: string, min: number, max: number): number | null | undefined => {
+    const value = String(formData.get(name) || "").trim();
+    if (!value) return null;
+    const hour = Number(value);
+    return Number.isInteger(hour) && hour >= min && hour <= max ? hour : undefined;
+  };
+
+  const startsAt = parseDate("startsAt");
+  const endsAt = parseDate("endsAt");
+  const scheduleStartHour = parseHour("scheduleStartHour", 0, 23);
+  const scheduleEndHour = parseHour("scheduleEndHour", 1, 24);
+
+  if (
+    startsAt === undefined ||
+    endsAt === undefined ||
+    scheduleStartHour === undefined ||
+    scheduleEndHour === undefined
+  ) {
+    return null;
+  }
+
+  const scheduleDays = [
+    ...new Set(
+      formData
+        .getAll("scheduleDays")
+        .map(Number)
+        .filter((day) => Number.isInteger(day) && day >= 0 && day <= 6)
+    ),
+  ].sort((a, b) => a - b);
+
+  return { startsAt, endsAt, scheduleDays, scheduleStartHour, scheduleEndHour };
+}
+
+/**
+ * Validate a parsed schedule
+ *
+ * @returns Error message, or null if the schedule is valid
+ */
+export function validateSchedule(schedule: RuleSchedule | null): string | null {
+  if (!schedule) {
+    return "Enter valid schedule dates and hours";
+  }
+
+  if (schedule.startsAt && schedule.endsAt && schedule.endsAt <= schedule.startsAt) {
+    return "End date must be after the start date";
+  }
+
+  if ((schedule.scheduleStartHour === null) !== (schedule.scheduleEndHour === null)) {
+    return "Set both a start and an end hour, or neither";
+  }
+
+  if (
+    schedule.scheduleStartHour !== null &&
+    schedule.scheduleStartHour === schedule.scheduleEndHour
+  ) {
+    return "Start and end hour must be different";
+  }
+
+  return null;
+}
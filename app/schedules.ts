@@ -0,0 +1,192 @@
+/**
+ * Rule Schedules (Client-safe)
+ *
+ * Optional start/end dates and recurring weekly windows. Everything is
+ * evaluated in the shop's IANA timezone so "Friday 9:00" means Friday 9:00
+ * at the store, not on the server.
+ */
+
+export const WEEKDAYS = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"] as const;
+
+export const SCHEDULE_STATES = {
+  ACTIVE: { label: "Active" },
+  SCHEDULED: { label: "Scheduled" }, // Start date not reached yet
+  EXPIRED: { label: "Expired" }, // End date has passed
+  OUTSIDE_WINDOW: { label: "Outside schedule" }, // Within dates, but not in the weekly window
+} as const;
+
+export type ScheduleState = keyof typeof SCHEDULE_STATES;
+
+/**
+ * Schedule fields as stored on a rule
+ */
+export interface RuleSchedule {
+  startsAt: Date | null;
+  endsAt: Date | null;
+  scheduleDays: number[]; // 0 = Sunday; empty = every day
+  scheduleStartHour: number | null; // 0-23
+  scheduleEndHour: number | null; // 1-24, exclusive; before start = overnight
+}
+
+interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  weekday: number; // 0 = Sunday
+}
+
+/**
+ * Wall-clock date and time of a moment in the given timezone
+ */
+function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    weekday: "short",
+  }).formatToParts(date);
+
+  const get = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((part) => part.type === type)?.value || "";
+
+  return {
+    year: Number(get("year")),
+    month: Number(get("month")),
+    day: Number(get("day")),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    weekday: WEEKDAYS.indexOf(get("weekday") as (typeof WEEKDAYS)[number]),
+  };
+}
+
+/**
+ * Offset of the timezone from UTC at the given moment, in milliseconds
+ */
+function getZoneOffset(timestamp: number, timeZone: string): number {
+  const parts = getZonedParts(new Date(timestamp), timeZone);
+  const wallClock = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+  return wallClock - Math.floor(timestamp / 60000) * 60000;
+}
+
+/**
+ * Format a moment as a datetime-local input value ("YYYY-MM-DDTHH:mm")
+ * in the given timezone
+ */
+export function toZonedInputValue(date: Date | null, timeZone: string): string {
+  if (!date) return "";
+
+  const parts = getZonedParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, "0");
+  return `${parts.year}-${pad(parts.month)}-${pad(parts.day)}T${pad(parts.hour)}:${pad(parts.minute)}`;
+}
+
+/**
+ * Parse a datetime-local input value as wall-clock time in the given timezone
+ *
+ * @returns The moment, or null if the value isn't a valid date and time
+ */
+export function fromZonedInputValue(value: string, timeZone: string): Date | null {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})$/);
+  if (!match) return null;
+
+  const [year, month, day, hour, minute] = match.slice(1).map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  if (isNaN(wallClock)) return null;
+
+  // Shift by the zone's offset, then re-check it in case the shift crossed a
+  // daylight saving change
+  const offset = getZoneOffset(wallClock, timeZone);
+  const corrected = getZoneOffset(wallClock - offset, timeZone);
+  return new Date(wallClock - corrected);
+}
+
+/**
+ * Check whether a moment falls inside the rule's recurring weekly window
+ */
+function isWithinWindow(schedule: RuleSchedule, timeZone: string, now: Date): boolean {
+  const { scheduleDays, scheduleStartHour, scheduleEndHour } = schedule;
+  const hasHours = scheduleStartHour !== null && scheduleEndHour !== null;
+
+  if (scheduleDays.length === 0 && !hasHours) return true;
+
+  const { weekday, hour } = getZonedParts(now, timeZone);
+  const onDay = (day: number) => scheduleDays.length === 0 || scheduleDays.includes(day);
+
+  if (!hasHours) return onDay(weekday);
+
+  if (scheduleStartHour < scheduleEndHour) {
+    return onDay(weekday) && hour >= scheduleStartHour && hour < scheduleEndHour;
+  }
+
+  // Overnight window: the hours after midnight belong to the previous day
+  if (hour >= scheduleStartHour) return onDay(weekday);
+  if (hour < scheduleEndHour) return onDay((weekday + 6) % 7);
+  return false;
+}
+
+/**
+ * Work out whether a rule's schedule lets it offer right now
+ */
+export function getScheduleState(
+  schedule: RuleSchedule,
+  timeZone: string,
+  now: Date = new Date()
+): ScheduleState {
+  if (schedule.endsAt && now >= schedule.endsAt) return "EXPIRED";
+  if (schedule.startsAt && now < schedule.startsAt) return "SCHEDULED";
+  return isWithinWindow(schedule, timeZone, now) ? "ACTIVE" : "OUTSIDE_WINDOW";
+}
+
+/**
+ * Format an hour of the day, e.g. 9 -> "09:00", 24 -> "24:00"
+ */
+export function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+/**
+ * Summarize a rule's schedule, e.g. "From Oct 20, 2026, 9:00 AM · Mon, Fri · 09:00–17:00"
+ *
+ * @returns Summary, or null if the rule always runs
+ */
+export function describeSchedule(schedule: RuleSchedule, timeZone: string): string | null {
+  const formatDate = (date: Date) =>
+    new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      dateStyle: "medium",
+      timeStyle: "short",
+    }).format(date);
+
+  const parts: string[] = [];
+
+  if (schedule.startsAt && schedule.endsAt) {
+    parts.push(`${formatDate(schedule.startsAt)} – ${formatDate(schedule.endsAt)}`);
+  } else if (schedule.startsAt) {
+    parts.push(`From ${formatDate(schedule.startsAt)}`);
+  } else if (schedule.endsAt) {
+    parts.push(`Until ${formatDate(schedule.endsAt)}`);
+  }
+
+  if (schedule.scheduleDays.length > 0) {
+    parts.push(
+      [...schedule.scheduleDays]
+        .sort((a, b) => a - b)
+        .map((day) => WEEKDAYS[day])
+        .join(", ")
+    );
+  }
+
+  if (schedule.scheduleStartHour !== null && schedule.scheduleEndHour !== null) {
+    parts.push(
+      `${formatHour(schedule.scheduleStartHour)}–${formatHour(schedule.scheduleEndHour)}`
+    );
+  }
+
+  return parts.length > 0 ? parts.join(" · ") : null;
+}
@@ -0,0 +1,296 @@
+import { prisma } from "./db.server";
+import type { AdminGraphqlClient } from "./collections.server";
+import { buildConditionGroupsCreate } from "./conditions.server";
+import { fetchResourceTitles } from "./products.server";
+import { emptyCondition, type RuleConditionsInput } from "./rules";
+import { buildUpsellsCreate } from "./upsells.server";
+
+/**
+ * Purchase Suggestions ("frequently bought together")
+ *
+ * Mines the shop's recent orders for products bought together and stores
+ * the strongest pairs as one-click rule suggestions. Reading orders needs
+ * the optional read_orders scope, which is only requested once the merchant
+ * turns suggestions on.
+ *
+ * Refreshed by the suggestions job and on demand from the admin page. The
+ * Admin API client is passed in, so the job can run against a local
+ * stand-in of the API.
+ */
+
+export const ORDERS_SCOPE = "read_orders";
+
+// read_orders only covers the last 60 days of orders
+export const ORDER_LOOKBACK_DAYS = 60;
+const MAX_ORDERS = 2000;
+const PAGE_SIZE = 250;
+const LINE_ITEMS_PER_ORDER = 50;
+
+// Pairs below these thresholds are too rare or too weak to suggest
+const MIN_PAIR_ORDERS = 3;
+const MIN_CONFIDENCE = 0.1;
+const MAX_SUGGESTIONS = 50;
+
+/**
+ * How strongly buying one product predicts buying another
+ */
+export interface ProductPairScore {
+  productId: string; // Product GID bought first (the trigger)
+  pairedProductId: string; // Product GID also bought (the upsell)
+  orderCount: number; // Orders containing both
+  support: number; // orderCount / all orders
+  confidence: number; // orderCount / orders containing productId
+}
+
+/**
+ * Check whether a session's granted scopes include read_orders
+ *
+ * @param scope - Comma-separated scopes, as stored on the session
+ */
+export function hasOrdersScope(scope: string | null | undefined): boolean {
+  return (scope || "").split(",").some((granted) => granted.trim() === ORDERS_SCOPE);
+}
+
+/**
+ * Score every ordered product pair in a set of orders
+ *
+ * Pairs are directional: "A → B" and "B → A" share support but usually
+ * differ in confidence.
+ *
+ * @param orders - Product GIDs of each order
+ * @returns Pairs above the thresholds, strongest first
+ */
+export function scoreProductPairs(orders: string[][]): ProductPairScore[] {
+  const productOrders = new Map<string, number>();
+  const pairOrders = new Map<string, number>();
+
+  for (const order of orders) {
+    const products = [...new Set(order)];
+
+    for (const productId of products) {
+      productOrders.set(productId, (productOrders.get(productId) || 0) + 1);
+
+      for (const pairedProductId of products) {
+        if (pairedProductId === productId) continue;
+        const key = JSON.stringify([productId, pairedProductId]);
+        pairOrders.set(key, (pairOrders.get(key) || 0) + 1);
+      }
+    }
+  }
+
+  const scores: ProductPairScore[] = [];
+  for (const [key, orderCount] of pairOrders) {
+    const [productId, pairedProductId]: string[] = JSON.parse(key);
+    const confidence = orderCount / (productOrders.get(productId) || 1);
+
+    if (orderCount < MIN_PAIR_ORDERS || confidence < MIN_CONFIDENCE) continue;
+
+    scores.push({
+      productId,
+      pairedProductId,
+      orderCount,
+      support: orderCount / orders.length,
+      confidence,
+    });
+  }
+
+  return scores
+    .sort((a, b) => b.confidence - a.confidence || b.support - a.support)
+    .slice(0, MAX_SUGGESTIONS);
+}
+
+/**
+ * Fetch the product GIDs of each recent order, newest first
+ *
+ * Line items without a product (custom items, deleted products) are skipped.
+ */
+export async function fetchRecentOrderProducts(
+  admin: AdminGraphqlClient,
+  since: Date
+): Promise<string[][]> {
+  const orders: string[][] = [];
+  let cursor: string | null = null;
+  let hasNextPage = true;
+
+  while (hasNextPage && orders.length < MAX_ORDERS) {
+    const response = await admin.graphql(
+      `#graphql
+        query getRecentOrders($after: String, $query: String) {
+          orders(
+            first: ${PAGE_SIZE}
+            after: $after
+            query: $query
+            sortKey: CREATED_AT
+            reverse: true
+          ) {
+            nodes {
+              lineItems(first: ${LINE_ITEMS_PER_ORDER}) {
+                nodes {
+                  product {
+                    id
+                  }
+                }
+              }
+            }
+            pageInfo {
+              hasNextPage
+              endCursor
+            }
+          }
+        }
+      `,
+      {
+        variables: {
+          after: cursor,
+          query: `created_at:>=${since.toISOString().slice(0, 10)}`,
+        },
+      }
+    );
+
+    const data = await response.json();
+    const page = data.data?.orders;
+
+    if (!page) {
+      throw new Error(
+        `Failed to fetch orders: ${JSON.stringify(data.errors || "no data")}`
+      );
+    }
+
+    for (const order of page.nodes) {
+      orders.push(
+        order.lineItems.nodes
+          .map((lineItem: { product: { id: string } | null }) => lineItem.product?.id)
+          .filter(Boolean)
+      );
+    }
+
+    hasNextPage = page.pageInfo.hasNextPage;
+    cursor = page.pageInfo.endCursor;
+  }
+
+  return orders.slice(0, MAX_ORDERS);
+}
+
+/**
+ * Recompute a shop's suggestions from its recent orders
+ *
+ * Open suggestions are replaced; accepted and dismissed ones keep their
+ * status so they aren't suggested again.
+ */
+export async function refreshPurchaseSuggestions(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  now = new Date()
+) {
+  const since = new Date(now.getTime() - ORDER_LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+  const orders = await fetchRecentOrderProducts(admin, since);
+  const scores = scoreProductPairs(orders);
+
+  await prisma.$transaction([
+    prisma.purchaseSuggestion.deleteMany({
+      where: { shopId, status: "OPEN" },
+    }),
+    ...scores.map((score) =>
+      prisma.purchaseSuggestion.upsert({
+        where: {
+          shopId_productId_pairedProductId: {
+            shopId,
+            productId: score.productId,
+            pairedProductId: score.pairedProductId,
+          },
+        },
+        create: { shopId, ...score },
+        update: {
+          orderCount: score.orderCount,
+          support: score.support,
+          confidence: score.confidence,
+        },
+      })
+    ),
+    prisma.shop.update({
+      where: { id: shopId },
+      data: {
+        purchaseSuggestionsSyncedAt: now,
+        purchaseSuggestionsOrderCount: orders.length,
+      },
+    }),
+  ]);
+
+  return { orders: orders.length, suggestions: scores.length };
+}
+
+/**
+ * Create a rule that offers the paired product whenever the suggestion's
+ * product is in the cart, and mark the suggestion accepted
+ *
+ * The rule goes to the end of the priority order. On the Free plan it is
+ * created disabled if another rule is already active.
+ *
+ * @returns The new rule's ID, or null if the suggestion doesn't exist
+ * @throws If a product snapshot can't be fetched
+ */
+export async function createRuleFromSuggestion(
+  admin: AdminGraphqlClient,
+  shopId: string,
+  suggestionId: string
+): Promise<string | null> {
+  const shop = await prisma.shop.findUniqueOrThrow({
+    where: { id: shopId },
+    include: {
+      rules: {
+        where: { isEnabled: true, isFallback: false },
+        select: { id: true },
+      },
+    },
+  });
+
+  const suggestion = await prisma.purchaseSuggestion.findFirst({
+    where: { id: suggestionId, shopId, status: "OPEN" },
+  });
+
+  if (!suggestion) return null;
+
+  const conditions: RuleConditionsInput = {
+    operator: "AND",
+    groups: [
+      {
+        operator: "AND",
+        conditions: [{ ...emptyCondition("PRODUCT"), productId: suggestion.productId }],
+      },
+    ],
+  };
+
+  const upsells = await buildUpsellsCreate(admin, [suggestion.pairedProductId]);
+  const conditionGroups = await buildConditionGroupsCreate(admin, conditions);
+
+  const titles = await fetchResourceTitles(admin, [
+    suggestion.productId,
+    suggestion.pairedProductId,
+  ]);
+
+  const lastRule = await prisma.rule.findFirst({
+    where: { shopId, isFallback: false },
+    orderBy: { priority: "desc" },
+  });
+
+  const rule = await prisma.rule.create({
+    data: {
+      shopId,
+      name: `${titles.get(suggestion.productId) || "Product"} → ${
+        titles.get(suggestion.pairedProductId) || "Product"
+      }`,
+      conditionOperator: conditions.operator,
+      conditionGroups: { create: conditionGroups },
+      upsells: { create: upsells },
+      priority: (lastRule?.priority ?? 0) + 1,
+      isEnabled: shop.currentPlan !== "FREE" || shop.rules.length < 1,
+    },
+  });
+
+  await prisma.purchaseSuggestion.update({
+    where: { id: suggestion.id },
+    data: { status: "ACCEPTED", ruleId: rule.id },
+  });
+
+  return rule.id;
+}
@@ -0,0 +1,217 @@
+import { prisma } from "./db.server";
+import { FREQUENCY_CAP_WINDOW_DAYS } from "./rules";
+
+/**
+ * Analytics Event Tracking
+ *
+ * Records impressions, conversions and dismissals sent by the widget.
+ * Shared by the app proxy (apps.proxy.track) and the direct storefront
+ * endpoint (api.storefront.track); each route only adds its own response
+ * headers. The offer engine reads dismissals back from the same events.
+ *
+ * Analytics count an impression once per session, while frequency caps
+ * count every page view the offer was shown in; those views are stored
+ * separately as offer views.
+ */
+
+export interface TrackEventBody {
+  eventType?: string;
+  ruleId?: string;
+  productId?: string; // Upsell product GID
+  shopDomain?: string;
+  cartToken?: string;
+  sessionId?: string;
+  viewId?: string; // Page view ID, for frequency caps
+  customerId?: string;
+  productPrice?: string | number; // Price of all units added
+  quantity?: string | number; // Units added, for conversions
+}
+
+export interface TrackResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+// Units added by a conversion; older widgets always add one
+function parseQuantity(quantity: string | number | undefined): number {
+  const value = parseInt(String(quantity ?? ""), 10);
+  return Number.isInteger(value) && value >= 1 ? value : 1;
+}
+
+/**
+ * Validate and store a widget analytics event
+ */
+export async function recordEvent(event: TrackEventBody): Promise<TrackResult> {
+  const {
+    eventType,
+    ruleId,
+    productId,
+    shopDomain,
+    cartToken,
+    sessionId,
+    viewId,
+    customerId,
+    productPrice,
+    quantity,
+  } = event;
+
+  // Validation
+  if (!eventType || !ruleId || !shopDomain) {
+    return { status: 400, body: { error: "Missing required fields" } };
+  }
+
+  if (
+    eventType !== "IMPRESSION" &&
+    eventType !== "CONVERSION" &&
+    eventType !== "DISMISSAL"
+  ) {
+    return { status: 400, body: { error: "Invalid event type" } };
+  }
+
+  // Get shop record
+  const shopRecord = await prisma.shop.findUnique({
+    where: { shopifyDomain: shopDomain },
+  });
+
+  if (!shopRecord) {
+    return { status: 404, body: { error: "Shop not found" } };
+  }
+
+  // Verify rule belongs to shop
+  const rule = await prisma.rule.findUnique({
+    where: {
+      id: ruleId,
+      shopId: shopRecord.id,
+    },
+  });
+
+  if (!rule) {
+    return { status: 404, body: { error: "Rule not found" } };
+  }
+
+  // Count the page view for frequency caps, once per rule, even if the
+  // impression itself was already tracked this session
+  if (eventType === "IMPRESSION" && viewId) {
+    await prisma.offerView.createMany({
+      data: [
+        {
+          shopId: shopRecord.id,
+          ruleId,
+          viewId,
+          sessionId: sessionId || null,
+          customerId: customerId || null,
+        },
+      ],
+      skipDuplicates: true,
+    });
+  }
+
+  // De-duplicate impressions and dismissals (max 1 per session, per rule
+  // and product)
+  if ((eventType === "IMPRESSION" || eventType === "DISMISSAL") && sessionId) {
+    const existingEvent = await prisma.analyticsEvent.findFirst({
+      where: {
+        ruleId,
+        productId: productId || null,
+        eventType,
+        sessionId,
+      },
+    });
+
+    if (existingEvent) {
+      // Already tracked this event
+      return {
+        status: 200,
+        body: { success: true, tracked: false, reason: "duplicate" },
+      };
+    }
+  }
+
+  // Create analytics event
+  await prisma.analyticsEvent.create({
+    data: {
+      shopId: shopRecord.id,
+      ruleId,
+      productId: productId || null,
+      eventType,
+      cartToken: cartToken || null,
+      sessionId: sessionId || null,
+      viewId: viewId || null,
+      customerId: customerId || null,
+      productPrice: eventType === "CONVERSION" && productPrice
+        ? parseFloat(String(productPrice))
+        : null,
+      quantity: eventType === "CONVERSION" ? parseQuantity(quantity) : null,
+    },
+  });
+
+  return { status: 200, body: { success: true, tracked: true } };
+}
+
+/**
+ * What a visitor has already seen and dismissed
+ */
+export interface ViewerHistory {
+  dismissed: Set<string>; // "ruleId:productId" pairs dismissed by the visitor
+  sessionImpressions: Map<string, number>; // Page views per rule this session
+  customerImpressions: Map<string, number>; // Page views per rule for the customer
+}
+
+/**
+ * Load a visitor's offer views and dismissals for dismissals and
+ * frequency caps
+ *
+ * Only the last FREQUENCY_CAP_WINDOW_DAYS count. Dismissals count from
+ * either the session or the logged-in customer.
+ */
+export async function getViewerHistory(
+  shopId: string,
+  sessionId: string | null,
+  customerId: string | null,
+  now = new Date()
+): Promise<ViewerHistory> {
+  const history: ViewerHistory = {
+    dismissed: new Set(),
+    sessionImpressions: new Map(),
+    customerImpressions: new Map(),
+  };
+
+  const viewer = [
+    ...(sessionId ? [{ sessionId }] : []),
+    ...(customerId ? [{ customerId }] : []),
+  ];
+  if (viewer.length === 0) return history;
+
+  const since = new Date(now.getTime() - FREQUENCY_CAP_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+
+  // Page views per rule, counted by the database
+  const countViews = async (where: { sessionId: string } | { customerId: string }) => {
+    const rows = await prisma.offerView.groupBy({
+      by: ["ruleId"],
+      where: { shopId, createdAt: { gte: since }, ...where },
+      _count: { _all: true },
+    });
+    return new Map(rows.map((row) => [row.ruleId, row._count._all]));
+  };
+
+  const [dismissals, sessionImpressions, customerImpressions] = await Promise.all([
+    prisma.analyticsEvent.findMany({
+      where: {
+        shopId,
+        eventType: "DISMISSAL",
+        createdAt: { gte: since },
+        OR: viewer,
+      },
+      select: { ruleId: true, productId: true },
+      distinct: ["ruleId", "productId"],
+    }),
+    sessionId ? countViews({ sessionId }) : history.sessionImpressions,
+    customerId ? countViews({ customerId }) : history.customerImpressions,
+  ]);
+
+  for (const dismissal of dismissals) {
+    history.dismissed.add(`${dismissal.ruleId}:${dismissal.productId}`);
+  }
+
+  return { ...history, sessionImpressions, customerImpressions };
+}
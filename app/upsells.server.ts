@@ -0,0 +1,110 @@
+import type { Prisma, RuleUpsell } from "@prisma/client";
+import type { AdminGraphqlClient } from "./collections.server";
+import {
+  fetchProductSnapshot,
+  hasProductOption,
+  type ProductSnapshot,
+} from "./products.server";
+
+/**
+ * Rule Upsells (Server)
+ *
+ * Parsing and persistence of a rule's ordered upsell product list
+ */
+
+// Prisma include for loading a rule's upsells in display order
+export const upsellsInclude = {
+  upsells: {
+    orderBy: { position: "asc" },
+  },
+} satisfies Prisma.RuleInclude;
+
+export type RuleWithUpsells = Prisma.RuleGetPayload<{
+  include: typeof upsellsInclude;
+}>;
+
+/**
+ * Read the ordered upsell product GIDs submitted by the upsell picker
+ */
+export function parseUpsellProductIds(formData: FormData): string[] {
+  return [
+    ...new Set(
+      formData
+        .getAll("upsellProductIds")
+        .map((value) => String(value).trim())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Read the experiment traffic weights submitted alongside the upsell
+ * products, keyed by product GID
+ *
+ * @returns The weights, or null if any weight isn't a whole number of at
+ * least 1
+ */
+export function parseTrafficWeights(formData: FormData): Record<string, number> | null {
+  const productIds = formData.getAll("upsellProductIds").map((value) => String(value).trim());
+  const weights = formData.getAll("upsellTrafficWeights").map((value) => Number(value));
+
+  if (weights.length !== productIds.length) return null;
+
+  const byProduct: Record<string, number> = {};
+  for (const [index, weight] of weights.entries()) {
+    if (!Number.isInteger(weight) || weight < 1) return null;
+    byProduct[productIds[index]] ??= weight;
+  }
+  return byProduct;
+}
+
+/**
+ * Build nested create input for a rule's upsells
+ *
+ * Reuses cached snapshots from the rule's current upsells where possible and
+ * fetches the rest. Snapshots cached before variant targeting have no
+ * variants, so those are refreshed too.
+ *
+ * @param weights - Experiment traffic weights by product GID (default 1)
+ * @throws If a product snapshot can't be fetched
+ */
+export async function buildUpsellsCreate(
+  admin: AdminGraphqlClient,
+  productIds: string[],
+  existing: RuleUpsell[] = [],
+  weights: Record<string, number> = {}
+): Promise<Prisma.RuleUpsellCreateWithoutRuleInput[]> {
+  return Promise.all(
+    productIds.map(async (productId, position) => {
+      const current = existing.find((upsell) => upsell.productId === productId);
+      let productData = current?.productData as ProductSnapshot | null | undefined;
+
+      if (!productData?.variants) {
+        productData = await fetchProductSnapshot(admin, productId);
+      }
+
+      return {
+        productId,
+        variantId: current?.variantId ?? null,
+        productData: productData ?? undefined,
+        position,
+        trafficWeight: weights[productId] ?? 1,
+      };
+    })
+  );
+}
+
+/**
+ * Check that at least one upsell product has the option used for
+ * variant matching
+ */
+export function hasMatchOption(
+  upsells: Prisma.RuleUpsellCreateWithoutRuleInput[],
+  optionName: string
+): boolean {
+  return upsells.some(
+    (upsell) =>
+      !!upsell.productData &&
+      hasProductOption(upsell.productData as ProductSnapshot, optionName)
+  );
+}
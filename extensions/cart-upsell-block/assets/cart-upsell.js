@@ -9,6 +9,11 @@
   const API_BASE = configuredUrl || '/apps/simple-cart-upsell';
   const SHOP_DOMAIN = window.Shopify?.shop || '';
 
+  // Page view ID: offers re-rendered on cart events within one page view
+  // count as a single view for frequency caps
+  const VIEW_ID = 'view_' + Date.now() + '_' + Math.random().toString(36).substr(2, 9);
+  const trackedImpressions = new Set();
+
   // Session ID for analytics (stored in sessionStorage)
   function getSessionId() {
     let sessionId = sessionStorage.getItem('cart_upsell_session');
@@ -19,8 +24,19 @@
     return sessionId;
   }
 
+  // First-time visitor: this browser's first session is the current one
+  function isFirstVisit() {
+    const sessionId = getSessionId();
+    let firstSessionId = localStorage.getItem('cart_upsell_first_session');
+    if (!firstSessionId) {
+      firstSessionId = sessionId;
+      localStorage.setItem('cart_upsell_first_session', firstSessionId);
+    }
+    return firstSessionId === sessionId;
+  }
+
   // Track analytics event
-  async function trackEvent(eventType, ruleId, productPrice = null) {
+  async function trackEvent(eventType, ruleId, productId, productPrice = null, quantity = null) {
     const cartToken = getCookie('cart');
 
     try {
@@ -32,10 +48,14 @@
         body: JSON.stringify({
           eventType,
           ruleId,
+          productId,
           shopDomain: SHOP_DOMAIN,
           cartToken,
           sessionId: getSessionId(),
-          productPrice
+          viewId: VIEW_ID,
+          customerId: cartUpsellData?.dataset.customerId || undefined,
+          productPrice,
+          quantity
         })
       });
     } catch (err) {
@@ -62,12 +82,16 @@
     }
   }
 
-  // Fetch free shipping settings
-  async function fetchShippingSettings() {
-    if (!SHOP_DOMAIN) return { enabled: false, threshold: 0 };
+  // Fetch progress bar settings and milestones, with thresholds in the
+  // buyer's presentment currency. The storefront's exchange rate lets the
+  // app convert thresholds the merchant didn't set for that currency.
+  async function fetchShippingSettings(currency) {
+    if (!SHOP_DOMAIN) return { enabled: false, milestones: [] };
 
     const params = new URLSearchParams({
-      shop: SHOP_DOMAIN
+      shop: SHOP_DOMAIN,
+      currency: currency || window.Shopify?.currency?.active || '',
+      rate: window.Shopify?.currency?.rate || ''
     });
 
     try {
@@ -78,7 +102,7 @@
       return data;
     } catch (err) {
       console.error('Failed to fetch shipping settings:', err);
-      return { enabled: false, threshold: 0 };
+      return { enabled: false, milestones: [] };
     }
   }
 
@@ -99,53 +123,174 @@
     return `${symbol}${amount.toFixed(2)}`;
   }
 
-  // Fetch upsell offers
-  async function fetchUpsells(productIds, cartToken) {
-    if (!productIds.length || !SHOP_DOMAIN) return [];
+  // Fetch upsell offers, gifts and gift milestones (null if the request
+  // failed, so gifts are left alone). The subtotal is in the buyer's
+  // presentment currency; the rate lets the app compare it with rules'
+  // shop-currency cart values.
+  async function fetchUpsells(productIds, variantIds, quantities, cartToken, subtotal) {
+    if (!productIds.length) return { offers: [], gifts: [], giftMilestones: [] };
+    if (!SHOP_DOMAIN) return null;
 
     const params = new URLSearchParams({
       shop: SHOP_DOMAIN,
       products: productIds.join(','),
-      cartToken: cartToken || ''
+      variants: variantIds.join(','),
+      quantities: quantities.join(','),
+      subtotal: subtotal.toFixed(2),
+      rate: window.Shopify?.currency?.rate || '',
+      cartToken: cartToken || '',
+      sessionId: getSessionId(),
+      country: cartUpsellData?.dataset.country || '',
+      customerId: cartUpsellData?.dataset.customerId || '',
+      customerTags: cartUpsellData?.dataset.customerTags || '',
+      firstVisit: isFirstVisit() ? '1' : '0',
+      maxOffers: cartUpsellData?.dataset.maxOffers || '0'
     });
 
     try {
       // Use different paths depending on whether we're using proxy or direct URL
       const endpoint = configuredUrl ? '/api/storefront/upsells' : '/upsells';
       const response = await fetch(`${API_BASE}${endpoint}?${params}`);
+      if (!response.ok) return null;
+
       const data = await response.json();
-      return data.offers || [];
+      return {
+        offers: data.offers || [],
+        gifts: data.gifts || [],
+        giftMilestones: data.giftMilestones || []
+      };
     } catch (err) {
       console.error('Failed to fetch upsells:', err);
-      return [];
+      return null;
+    }
+  }
+
+  // Gift lines this widget added, marked with their rule ID
+  function getGiftLines(cart) {
+    return cart.items.filter(item => item.properties && item.properties._gift_rule_id);
+  }
+
+  // Add the gifts the cart qualifies for and remove the ones it no longer
+  // does. The app's discount function prices one unit of each gift to zero.
+  // Returns true if the cart changed.
+  let isSyncingGifts = false;
+  async function syncGifts(giftLines, gifts) {
+    if (isSyncingGifts) return false;
+
+    const giftRuleIds = gifts.map(gift => gift.ruleId);
+    const lineRuleIds = giftLines.map(item => item.properties._gift_rule_id);
+
+    const updates = {};
+    giftLines.forEach(item => {
+      if (!giftRuleIds.includes(item.properties._gift_rule_id)) {
+        updates[item.key] = 0;
+      }
+    });
+
+    const items = gifts
+      .filter(gift => !lineRuleIds.includes(gift.ruleId))
+      .map(gift => ({
+        id: gift.product.variantId.split('/').pop(),
+        quantity: 1,
+        properties: { _gift_rule_id: gift.ruleId }
+      }));
+
+    if (!Object.keys(updates).length && !items.length) return false;
+
+    isSyncingGifts = true;
+    let changed = false;
+    try {
+      if (Object.keys(updates).length) {
+        const response = await fetch('/cart/update.js', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ updates })
+        });
+        changed = changed || response.ok;
+      }
+
+      // A gift that's out of stock is skipped rather than retried
+      if (items.length) {
+        const response = await fetch('/cart/add.js', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ items })
+        });
+        changed = changed || response.ok;
+      }
+    } catch (err) {
+      console.error('Gift update failed:', err);
     }
+    isSyncingGifts = false;
+    return changed;
   }
 
-  // Add product to cart
-  async function addToCart(variantId, quantity = 1) {
+  // Re-render the theme's cart sections (the drawer or cart page, and the
+  // cart icon) with the Section Rendering API, so an open drawer stays open.
+  // The drawer's own element is kept and only its contents are swapped.
+  // Reloads the page if there's no cart section to re-render.
+  // Returns true if the sections were re-rendered.
+  async function refreshCart() {
+    const drawer = isInCartDrawer();
+    const cartSection = (drawer || document.querySelector('form[action="/cart"]'))?.closest('.shopify-section');
+    if (!cartSection) {
+      window.location.reload();
+      return false;
+    }
+
+    const targets = [cartSection];
+    const iconSection = document.getElementById('shopify-section-cart-icon-bubble');
+    if (iconSection && iconSection !== cartSection) targets.push(iconSection);
+    const sectionIds = targets.map(target => target.id.replace('shopify-section-', ''));
+
+    try {
+      const root = window.Shopify?.routes?.root || '/';
+      const response = await fetch(`${root}?sections=${sectionIds.join(',')}`);
+      if (!response.ok) throw new Error(`Section rendering failed: ${response.status}`);
+      const sections = await response.json();
+
+      targets.forEach((target, index) => {
+        const html = new DOMParser().parseFromString(sections[sectionIds[index]] || '', 'text/html');
+        const current = drawer && drawer.id && target.contains(drawer) ? drawer : target;
+        const updated = html.getElementById(current.id);
+        if (!updated) throw new Error(`Section ${sectionIds[index]} has no #${current.id}`);
+        current.innerHTML = updated.innerHTML;
+      });
+      return true;
+    } catch (err) {
+      console.error('Cart refresh failed:', err);
+      window.location.reload();
+      return false;
+    }
+  }
+
+  // Add product to cart. Discounted upsells carry their rule ID as a hidden
+  // line property, which the app's discount function checks at checkout.
+  async function addToCart(variantId, quantity = 1, discountRuleId = null) {
     // Extract numeric ID from Shopify GID if needed
     const numericId = variantId.includes('gid://')
       ? variantId.split('/').pop()
       : variantId;
 
+    const item = { id: numericId, quantity: quantity };
+    if (discountRuleId) {
+      item.properties = { _upsell_rule_id: discountRuleId };
+    }
+
     try {
       const response = await fetch('/cart/add.js', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({
-          items: [{
-            id: numericId,
-            quantity: quantity
-          }]
+          items: [item]
         })
       });
 
       if (response.ok) {
-        // Trigger cart update event
-        document.dispatchEvent(new CustomEvent('cart:updated'));
-
-        // Refresh the page to show updated cart
-        window.location.reload();
+        // Re-render the cart to show the new line, then trigger cart update event
+        if (await refreshCart()) {
+          document.dispatchEvent(new CustomEvent('cart:updated'));
+        }
         return true;
       }
       return false;
@@ -180,15 +325,41 @@
     container.style.display = 'block';
 
     const offersHTML = offers.map(offer => {
-      const discountPercent = getDiscountPercent(
-        offer.product.price,
-        offer.product.compareAtPrice
-      );
+      // A rule discount is applied at checkout on top of the current price
+      const price = offer.discount ? offer.discount.price : offer.product.price;
+      const compareAtPrice = offer.discount
+        ? (offer.product.compareAtPrice || offer.product.price)
+        : offer.product.compareAtPrice;
+
+      const discountPercent = getDiscountPercent(price, compareAtPrice);
 
       const hasSale = discountPercent && discountPercent > 0;
 
+      // Volume offers: the customer picks how many units to add
+      const tiersHTML = offer.tiers && offer.tiers.length
+        ? `
+          <select class="cart-upsell__tiers" aria-label="Quantity">
+            <option value="1" data-price="${price}">Buy 1 &ndash; ${formatMoney(price)}</option>
+            ${offer.tiers.map(tier => `
+              <option value="${tier.quantity}" data-price="${tier.price}">
+                Buy ${tier.quantity} &ndash; ${formatMoney(tier.price)} each${tier.discountPercent > 0 ? ` (Save ${tier.discountPercent}%)` : ''}
+              </option>
+            `).join('')}
+          </select>
+        `
+        : '';
+      const isDiscounted = Boolean(offer.discount) ||
+        (offer.tiers || []).some(tier => tier.discountPercent > 0);
+
       return `
-      <div class="cart-upsell__item" data-rule-id="${offer.ruleId}">
+      <div class="cart-upsell__item" data-rule-id="${offer.ruleId}" data-product-id="${offer.product.id}">
+        <button
+          class="cart-upsell__dismiss"
+          type="button"
+          aria-label="Not interested"
+          title="Not interested"
+          data-rule-id="${offer.ruleId}"
+          data-product-id="${offer.product.id}">&times;</button>
         ${hasSale ? `<span class="cart-upsell__badge cart-upsell__badge--sale">${discountPercent}% OFF</span>` : ''}
         <div class="cart-upsell__image">
           ${offer.product.image
@@ -199,14 +370,18 @@
         <div class="cart-upsell__details">
           <h4 class="cart-upsell__title">${offer.product.title}</h4>
           <div class="cart-upsell__price ${hasSale ? 'cart-upsell__price--sale' : ''}">
-            ${hasSale ? `<span class="cart-upsell__compare-price">${formatMoney(offer.product.compareAtPrice)}</span>` : ''}
-            <span>${formatMoney(offer.product.price)}</span>
+            ${hasSale ? `<span class="cart-upsell__compare-price">${formatMoney(compareAtPrice)}</span>` : ''}
+            <span class="cart-upsell__unit-price">${formatMoney(price)}</span>
           </div>
+          ${tiersHTML}
           <button
             class="cart-upsell__add-btn"
             data-variant-id="${offer.product.variantId}"
             data-rule-id="${offer.ruleId}"
-            data-price="${offer.product.price}">
+            data-product-id="${offer.product.id}"
+            data-discounted="${isDiscounted ? 'true' : 'false'}"
+            data-quantity="1"
+            data-price="${price}">
             Add to Cart
           </button>
         </div>
@@ -219,9 +394,35 @@
       listContainer.innerHTML = offersHTML;
     }
 
-    // Track impressions
+    // Track impressions (once per page view)
     offers.forEach(offer => {
-      trackEvent('IMPRESSION', offer.ruleId);
+      const key = `${offer.ruleId}:${offer.product.id}`;
+      if (trackedImpressions.has(key)) return;
+      trackedImpressions.add(key);
+      trackEvent('IMPRESSION', offer.ruleId, offer.product.id);
+    });
+
+    // Attach dismiss handlers
+    container.querySelectorAll('.cart-upsell__dismiss').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        const { ruleId, productId } = e.currentTarget.dataset;
+        trackEvent('DISMISSAL', ruleId, productId);
+        dismissOffer(ruleId, productId);
+      });
+    });
+
+    // Attach tier handlers
+    container.querySelectorAll('.cart-upsell__tiers').forEach(select => {
+      select.addEventListener('change', (e) => {
+        const item = e.currentTarget.closest('.cart-upsell__item');
+        const option = e.currentTarget.selectedOptions[0];
+        const button = item.querySelector('.cart-upsell__add-btn');
+
+        button.dataset.quantity = option.value;
+        button.dataset.price = option.dataset.price;
+        item.querySelector('.cart-upsell__unit-price').textContent =
+          formatMoney(parseFloat(option.dataset.price));
+      });
     });
 
     // Attach click handlers
@@ -230,16 +431,22 @@
         const button = e.target;
         const variantId = button.dataset.variantId;
         const ruleId = button.dataset.ruleId;
+        const productId = button.dataset.productId;
         const price = parseFloat(button.dataset.price);
+        const quantity = parseInt(button.dataset.quantity, 10) || 1;
 
         button.disabled = true;
         button.textContent = 'Adding...';
 
-        const success = await addToCart(variantId);
+        const success = await addToCart(
+          variantId,
+          quantity,
+          button.dataset.discounted === 'true' ? ruleId : null
+        );
 
         if (success) {
           // Track conversion
-          trackEvent('CONVERSION', ruleId, price);
+          trackEvent('CONVERSION', ruleId, productId, price * quantity, quantity);
           button.textContent = 'Added!';
         } else {
           button.disabled = false;
@@ -249,6 +456,21 @@
     });
   }
 
+  // Remove a dismissed offer from every widget on the page
+  function dismissOffer(ruleId, productId) {
+    document.querySelectorAll('[data-cart-upsell]').forEach(container => {
+      container.querySelectorAll('.cart-upsell__item').forEach(item => {
+        if (item.dataset.ruleId === ruleId && item.dataset.productId === productId) {
+          item.remove();
+        }
+      });
+
+      if (!container.querySelector('.cart-upsell__item')) {
+        container.style.display = 'none';
+      }
+    });
+  }
+
   // Detect if we're in a cart drawer context
   function isInCartDrawer() {
     // Check common cart drawer selectors used by Shopify themes
@@ -292,9 +514,8 @@
     const shippingBarHTML = `
       <div class="free-shipping-bar" id="free-shipping-bar-drawer" style="display: none; background: linear-gradient(135deg, #667eea 0%, #764ba2 100%); border-radius: 8px; padding: 1.25rem; margin: 1rem 0; border: none; box-shadow: 0 4px 12px rgba(102, 126, 234, 0.3);">
         <div class="free-shipping-bar__message" id="free-shipping-message-drawer" style="font-size: 1rem; font-weight: 700; margin-bottom: 0.75rem; text-align: center; color: #ffffff; text-shadow: 0 1px 2px rgba(0, 0, 0, 0.1);"></div>
-        <div class="free-shipping-bar__progress-container" style="width: 100%; height: 12px; background: rgba(255, 255, 255, 0.3); border-radius: 20px; overflow: hidden; position: relative; box-shadow: inset 0 2px 4px rgba(0, 0, 0, 0.1);">
-          <div class="free-shipping-bar__progress" id="free-shipping-progress-drawer" style="height: 100%; background: linear-gradient(90deg, #ffffff 0%, #f0f0f0 100%); border-radius: 20px; transition: width 0.5s ease; width: 0%; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);"></div>
-        </div>
+        <div class="free-shipping-bar__progress-container" id="free-shipping-progress-drawer" style="width: 100%; height: 12px; display: flex; gap: 4px;"></div>
+        <div class="free-shipping-bar__milestones" id="free-shipping-milestones-drawer" style="position: relative; height: 1.25rem; margin-top: 0.5rem;"></div>
       </div>
     `;
 
@@ -318,35 +539,79 @@
     }
   }
 
-  // Update shipping progress (works for both page and drawer)
-  function updateShippingProgressBar(cartTotal, threshold, currency, isDrawer = false) {
+  // Join milestone messages, e.g. "free shipping, a free tote and 10% off"
+  function joinMessages(messages) {
+    if (messages.length < 2) return messages.join('');
+    return `${messages.slice(0, -1).join(', ')} and ${messages[messages.length - 1]}`;
+  }
+
+  // Update shipping progress (works for both page and drawer). Milestones
+  // are { threshold, message, icon } objects, e.g. the shop's free shipping
+  // and discount milestones and gift rules' subtotals. The bar has a segment
+  // per milestone, as wide as the spend since the previous one, and the
+  // message tracks the next one the cart hasn't reached.
+  function updateShippingProgressBar(cartTotal, milestones, currency, isDrawer = false) {
     const suffix = isDrawer ? '-drawer' : '';
     const barElement = document.getElementById(`free-shipping-bar${suffix}`);
     const messageElement = document.getElementById(`free-shipping-message${suffix}`);
     const progressElement = document.getElementById(`free-shipping-progress${suffix}`);
+    const markersElement = document.getElementById(`free-shipping-milestones${suffix}`);
 
     if (!barElement || !messageElement || !progressElement) return;
 
-    const remaining = threshold - cartTotal;
-    const progress = Math.min((cartTotal / threshold) * 100, 100);
+    const sorted = [...milestones].sort((a, b) => a.threshold - b.threshold);
+    const next = sorted.find(milestone => milestone.threshold > cartTotal);
+    const highest = sorted[sorted.length - 1].threshold;
 
-    if (remaining > 0) {
-      // Not yet reached threshold
-      const remainingFormatted = formatMoneyWithCurrency(remaining, currency || 'USD');
-      messageElement.textContent = `Add ${remainingFormatted} more for free shipping!`;
+    if (next) {
+      // Not yet reached the next milestone
+      const remainingFormatted = formatMoneyWithCurrency(next.threshold - cartTotal, currency || 'USD');
+      messageElement.textContent = `Add ${remainingFormatted} more for ${next.message}!`;
       messageElement.classList.remove('success');
-      progressElement.classList.remove('complete');
     } else {
-      // Threshold reached!
-      messageElement.textContent = '🎉 You\'ve unlocked free shipping!';
+      // Every milestone reached!
+      const messages = sorted.map(milestone => milestone.message);
+      messageElement.textContent = `🎉 You've unlocked ${joinMessages(messages)}!`;
       messageElement.classList.add('success');
-      progressElement.classList.add('complete');
-      // Update progress element style for complete state
-      progressElement.style.background = 'linear-gradient(90deg, #4caf50 0%, #66bb6a 100%)';
-      progressElement.style.boxShadow = '0 0 12px rgba(76, 175, 80, 0.5)';
     }
 
-    progressElement.style.width = `${progress}%`;
+    progressElement.innerHTML = '';
+    if (markersElement) markersElement.innerHTML = '';
+
+    let previous = 0;
+    sorted.forEach(milestone => {
+      const span = milestone.threshold - previous;
+      const reached = cartTotal >= milestone.threshold;
+
+      // Milestones at the same threshold share a segment
+      if (span > 0) {
+        const segment = document.createElement('div');
+        segment.className = 'free-shipping-bar__segment';
+        segment.style.cssText = `flex: ${span} 1 0; height: 100%; background: rgba(255, 255, 255, 0.3); border-radius: 20px; overflow: hidden; box-shadow: inset 0 2px 4px rgba(0, 0, 0, 0.1);`;
+
+        const fill = document.createElement('div');
+        fill.className = reached ? 'free-shipping-bar__progress complete' : 'free-shipping-bar__progress';
+        fill.style.cssText = reached
+          ? 'height: 100%; background: linear-gradient(90deg, #4caf50 0%, #66bb6a 100%); border-radius: 20px; box-shadow: 0 0 12px rgba(76, 175, 80, 0.5);'
+          : 'height: 100%; background: linear-gradient(90deg, #ffffff 0%, #f0f0f0 100%); border-radius: 20px; transition: width 0.5s ease; box-shadow: 0 2px 4px rgba(0, 0, 0, 0.1);';
+        fill.style.width = `${Math.min(Math.max((cartTotal - previous) / span, 0), 1) * 100}%`;
+
+        segment.appendChild(fill);
+        progressElement.appendChild(segment);
+      }
+
+      if (markersElement) {
+        const marker = document.createElement('span');
+        marker.className = reached ? 'free-shipping-bar__milestone reached' : 'free-shipping-bar__milestone';
+        marker.title = milestone.message;
+        marker.textContent = `${milestone.icon ? `${milestone.icon} ` : ''}${formatMoneyWithCurrency(milestone.threshold, currency || 'USD')}`;
+        marker.style.cssText = `position: absolute; left: ${(milestone.threshold / highest) * 100}%; transform: translateX(-100%); font-size: 0.75rem; font-weight: 600; white-space: nowrap; color: #ffffff; opacity: ${reached ? 1 : 0.75};`;
+        markersElement.appendChild(marker);
+      }
+
+      previous = milestone.threshold;
+    });
+
     barElement.style.display = 'block';
   }
 
@@ -361,19 +626,51 @@
     }
 
     const cart = await getCart();
-    const productIds = cart.items.map(item => item.product_id.toString());
+
+    // Gifts don't count as cart products or towards the cart total
+    const giftLines = getGiftLines(cart);
+    const items = cart.items.filter(item => !giftLines.includes(item));
+    const productIds = items.map(item => item.product_id.toString());
+    const variantIds = items.map(item => item.variant_id.toString());
+    const quantities = items.map(item => item.quantity.toString());
     const cartToken = getCookie('cart');
 
-    // Fetch and update free shipping progress
-    const shippingSettings = await fetchShippingSettings();
-    if (shippingSettings.enabled && shippingSettings.threshold > 0) {
-      // Cart total is in cents, convert to dollars
-      const cartTotal = cart.total_price / 100;
+    // Cart total is in cents of the presentment currency, convert to major units
+    const cartTotal = items.reduce((sum, item) => sum + item.final_line_price, 0) / 100;
+
+    const result = await fetchUpsells(productIds, variantIds, quantities, cartToken, cartTotal);
 
+    // Re-render the cart to show added or removed gifts
+    if (result && await syncGifts(giftLines, result.gifts)) {
+      if (await refreshCart()) initUpsells();
+      return;
+    }
+
+    // Fetch and update the progress bar's milestones, along with gift milestones
+    const milestones = [];
+    const shippingSettings = await fetchShippingSettings(cart.currency);
+    if (shippingSettings.enabled) {
+      (shippingSettings.milestones || []).forEach(milestone => {
+        if (milestone.threshold > 0) milestones.push(milestone);
+      });
+    }
+    // Gift thresholds come converted at the same rate as the cart total
+    if (result && cartUpsellData?.dataset.showGiftMilestones !== 'false') {
+      result.giftMilestones.forEach(milestone => {
+        if (milestone.threshold <= 0) return;
+        milestones.push({
+          threshold: milestone.threshold,
+          message: `a free ${milestone.title}`,
+          icon: '🎁'
+        });
+      });
+    }
+
+    if (milestones.length) {
       // Update both page and drawer if they exist
-      updateShippingProgressBar(cartTotal, shippingSettings.threshold, shippingSettings.currency, false);
+      updateShippingProgressBar(cartTotal, milestones, shippingSettings.currency, false);
       if (drawer) {
-        updateShippingProgressBar(cartTotal, shippingSettings.threshold, shippingSettings.currency, true);
+        updateShippingProgressBar(cartTotal, milestones, shippingSettings.currency, true);
       }
     }
 
@@ -386,10 +683,8 @@
       return;
     }
 
-    const offers = await fetchUpsells(productIds, cartToken);
-
     containers.forEach(container => {
-      renderOffers(offers, container);
+      renderOffers(result ? result.offers : [], container);
     });
   }
 
@@ -0,0 +1,128 @@
+// @ts-check
+
+/**
+ * @typedef {import("../generated/api").CartLinesDiscountsGenerateRunInput} RunInput
+ * @typedef {import("../generated/api").CartLinesDiscountsGenerateRunResult} RunResult
+ */
+
+/**
+ * Rule discounts written by the app (see app/discounts.server.ts)
+ *
+ * @typedef {{ type: "PERCENTAGE" | "FIXED_AMOUNT", value: number }} RuleDiscount
+ * @typedef {{
+ *   rules: Record<string, {
+ *     discount: RuleDiscount | null,
+ *     tiers: { quantity: number, discountPercent: number }[],
+ *     productIds: string[],
+ *   }>,
+ *   gifts?: Record<string, { variantId: string, minSubtotal: number }>,
+ * }} UpsellDiscountConfig
+ */
+
+/** @type {RunResult} */
+const NO_DISCOUNT = { operations: [] };
+
+/**
+ * Discount upsell lines the widget added for a rule with a discount
+ *
+ * A line is only discounted if its product is one of the rule's upsells,
+ * so the line property alone can't discount anything else. Lines get the
+ * discount of the largest quantity tier they reach, or the rule's flat
+ * discount if that tier has no savings or they reach none.
+ *
+ * Gift lines get one unit for free, as long as the line is the rule's gift
+ * variant and the rest of the cart still reaches the rule's minimum
+ * subtotal. Gifts without a minimum subtotal are never free.
+ *
+ * @param {RunInput} input
+ * @returns {RunResult}
+ */
+export function cartLinesDiscountsGenerateRun(input) {
+  if (!input.discount.discountClasses.includes("PRODUCT")) {
+    return NO_DISCOUNT;
+  }
+
+  /** @type {UpsellDiscountConfig | undefined} */
+  const config = input.discount.metafield?.jsonValue;
+  if (!config?.rules) {
+    return NO_DISCOUNT;
+  }
+
+  const candidates = [];
+  const gifts = config.gifts || {};
+
+  // Gifts don't count towards the subtotal that earns them
+  const subtotal = input.cart.lines
+    .filter((line) => !line.giftRuleId?.value)
+    .reduce((sum, line) => sum + Number(line.cost.subtotalAmount.amount), 0);
+
+  for (const line of input.cart.lines) {
+    const giftRuleId = line.giftRuleId?.value;
+    const gift = giftRuleId ? gifts[giftRuleId] : undefined;
+
+    if (gift) {
+      if (line.merchandise.__typename !== "ProductVariant") continue;
+      if (line.merchandise.id !== gift.variantId) continue;
+      // Rules store amounts in the shop currency
+      if (
+        typeof gift.minSubtotal !== "number" ||
+        subtotal < gift.minSubtotal * Number(input.presentmentCurrencyRate)
+      ) {
+        continue;
+      }
+
+      candidates.push({
+        message: "Free gift",
+        targets: [{ cartLine: { id: line.id, quantity: 1 } }],
+        value: { percentage: { value: 100 } },
+      });
+      continue;
+    }
+
+    const ruleId = line.upsellRuleId?.value;
+    const rule = ruleId ? config.rules[ruleId] : undefined;
+
+    if (!rule || line.merchandise.__typename !== "ProductVariant") continue;
+    if (!rule.productIds.includes(line.merchandise.product.id)) continue;
+
+    const tier = rule.tiers.filter((tier) => tier.quantity <= line.quantity).pop();
+
+    /** @type {RuleDiscount | null} */
+    const discount =
+      tier && tier.discountPercent > 0
+        ? { type: "PERCENTAGE", value: tier.discountPercent }
+        : rule.discount;
+    if (!discount) continue;
+
+    candidates.push({
+      message:
+        discount.type === "PERCENTAGE" ? `${discount.value}% off` : "Upsell discount",
+      targets: [{ cartLine: { id: line.id, quantity: line.quantity } }],
+      value:
+        discount.type === "PERCENTAGE"
+          ? { percentage: { value: discount.value } }
+          : {
+              fixedAmount: {
+                // Rules store amounts in the shop currency
+                amount: (discount.value * Number(input.presentmentCurrencyRate)).toFixed(2),
+                appliesToEachItem: true,
+              },
+            },
+    });
+  }
+
+  if (candidates.length === 0) {
+    return NO_DISCOUNT;
+  }
+
+  return {
+    operations: [
+      {
+        productDiscountsAdd: {
+          candidates,
+          selectionStrategy: "ALL",
+        },
+      },
+    ],
+  };
+}
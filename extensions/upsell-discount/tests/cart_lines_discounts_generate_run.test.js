@@ -0,0 +1,26 @@
+import { readdirSync, readFileSync } from "node:fs";
+import { describe, expect, it } from "vitest";
+import { cartLinesDiscountsGenerateRun } from "../src/cart_lines_discounts_generate_run";
+
+// Each fixture is a function run payload: the input query result and the
+// operations the function should return for it
+const fixtures = new URL("./fixtures/", import.meta.url);
+
+describe("cartLinesDiscountsGenerateRun", () => {
+  for (const file of readdirSync(fixtures).filter((name) => name.endsWith(".json"))) {
+    const { payload } = JSON.parse(readFileSync(new URL(file, fixtures), "utf8"));
+
+    it(file.replace(/\.json$/, "").replaceAll("-", " "), () => {
+      expect(cartLinesDiscountsGenerateRun(payload.input)).toEqual(payload.output);
+    });
+  }
+
+  it("discounts nothing without the product discount class", () => {
+    const { payload } = JSON.parse(
+      readFileSync(new URL("tier-discount-over-flat-discount.json", fixtures), "utf8")
+    );
+    payload.input.discount.discountClasses = ["ORDER"];
+
+    expect(cartLinesDiscountsGenerateRun(payload.input)).toEqual({ operations: [] });
+  });
+});
@@ -0,0 +1,22 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "collectionIndexSyncedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "ProductCollection" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "collectionId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ProductCollection_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductCollection_shopId_collectionId_idx" ON "ProductCollection"("shopId", "collectionId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductCollection_shopId_productId_collectionId_key" ON "ProductCollection"("shopId", "productId", "collectionId");
+
+-- AddForeignKey
+ALTER TABLE "ProductCollection" ADD CONSTRAINT "ProductCollection_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- AlterEnum
+-- This migration adds more than one value to an enum.
+-- With PostgreSQL versions 11 and earlier, this is not possible
+-- in a single migration. This can be worked around by creating
+-- multiple migrations, each migration adding only one value to
+-- the enum.
+
+
+ALTER TYPE "TriggerType" ADD VALUE 'TAG';
+ALTER TYPE "TriggerType" ADD VALUE 'VENDOR';
+ALTER TYPE "TriggerType" ADD VALUE 'PRODUCT_TYPE';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "triggerValue" TEXT;
+
+-- CreateTable
+CREATE TABLE "ProductAttributes" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "tags" TEXT[],
+    "vendor" TEXT,
+    "productType" TEXT,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductAttributes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ProductAttributes_shopId_productId_key" ON "ProductAttributes"("shopId", "productId");
+
+-- AddForeignKey
+ALTER TABLE "ProductAttributes" ADD CONSTRAINT "ProductAttributes_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,6 @@
+-- AlterEnum
+ALTER TYPE "TriggerType" ADD VALUE 'CART_VALUE';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "triggerMinSubtotal" DECIMAL(10,2),
+ADD COLUMN     "triggerMaxSubtotal" DECIMAL(10,2);
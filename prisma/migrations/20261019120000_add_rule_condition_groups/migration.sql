@@ -0,0 +1,69 @@
+-- CreateEnum
+CREATE TYPE "ConditionOperator" AS ENUM ('AND', 'OR');
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "conditionOperator" "ConditionOperator" NOT NULL DEFAULT 'AND';
+
+-- CreateTable
+CREATE TABLE "ConditionGroup" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "operator" "ConditionOperator" NOT NULL DEFAULT 'AND',
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "ConditionGroup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Condition" (
+    "id" TEXT NOT NULL,
+    "groupId" TEXT NOT NULL,
+    "type" "TriggerType" NOT NULL,
+    "negate" BOOLEAN NOT NULL DEFAULT false,
+    "productId" TEXT,
+    "collectionId" TEXT,
+    "value" TEXT,
+    "minSubtotal" DECIMAL(10,2),
+    "maxSubtotal" DECIMAL(10,2),
+    "productData" JSONB,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "Condition_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ConditionGroup_ruleId_idx" ON "ConditionGroup"("ruleId");
+
+-- CreateIndex
+CREATE INDEX "Condition_groupId_idx" ON "Condition"("groupId");
+
+-- CreateIndex
+CREATE INDEX "Condition_collectionId_idx" ON "Condition"("collectionId");
+
+-- AddForeignKey
+ALTER TABLE "ConditionGroup" ADD CONSTRAINT "ConditionGroup_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Condition" ADD CONSTRAINT "Condition_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "ConditionGroup"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Convert existing single-trigger rules into one-condition groups
+INSERT INTO "ConditionGroup" ("id", "ruleId", "operator", "position")
+SELECT 'grp_' || "id", "id", 'AND', 0 FROM "Rule";
+
+INSERT INTO "Condition" ("id", "groupId", "type", "productId", "collectionId", "value", "minSubtotal", "maxSubtotal", "productData", "position")
+SELECT 'cnd_' || "id", 'grp_' || "id", "triggerType", "triggerProductId", "triggerCollectionId", "triggerValue", "triggerMinSubtotal", "triggerMaxSubtotal", "triggerProductData", 0 FROM "Rule";
+
+-- DropIndex
+DROP INDEX "Rule_triggerCollectionId_idx";
+
+-- DropIndex
+DROP INDEX "Rule_triggerProductId_idx";
+
+-- AlterTable
+ALTER TABLE "Rule" DROP COLUMN "triggerCollectionId",
+DROP COLUMN "triggerMaxSubtotal",
+DROP COLUMN "triggerMinSubtotal",
+DROP COLUMN "triggerProductData",
+DROP COLUMN "triggerProductId",
+DROP COLUMN "triggerType",
+DROP COLUMN "triggerValue";
@@ -0,0 +1,8 @@
+-- AlterEnum
+ALTER TYPE "TriggerType" ADD VALUE 'VARIANT';
+
+-- AlterTable
+ALTER TABLE "Condition" ADD COLUMN     "variantId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "upsellMatchOption" TEXT;
@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "AnalyticsEvent" ADD COLUMN     "productId" TEXT;
+
+-- CreateTable
+CREATE TABLE "RuleUpsell" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "productData" JSONB,
+    "position" INTEGER NOT NULL DEFAULT 0,
+
+    CONSTRAINT "RuleUpsell_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RuleUpsell_ruleId_idx" ON "RuleUpsell"("ruleId");
+
+-- AddForeignKey
+ALTER TABLE "RuleUpsell" ADD CONSTRAINT "RuleUpsell_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each rule's single upsell into the list
+INSERT INTO "RuleUpsell" ("id", "ruleId", "productId", "variantId", "productData", "position")
+SELECT 'ups_' || "id", "id", "upsellProductId", "upsellVariantId", "upsellProductData", 0 FROM "Rule";
+
+-- Existing events all refer to their rule's only upsell
+UPDATE "AnalyticsEvent" SET "productId" = "Rule"."upsellProductId"
+FROM "Rule" WHERE "AnalyticsEvent"."ruleId" = "Rule"."id";
+
+-- AlterTable
+ALTER TABLE "Rule" DROP COLUMN "upsellProductData",
+DROP COLUMN "upsellProductId",
+DROP COLUMN "upsellVariantId";
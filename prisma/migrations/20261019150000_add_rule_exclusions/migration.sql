@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "excludedCollectionIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "excludedProductIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "excludedTags" TEXT[] DEFAULT ARRAY[]::TEXT[];
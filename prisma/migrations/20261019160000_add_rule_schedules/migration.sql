@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "ianaTimezone" TEXT NOT NULL DEFAULT 'UTC';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "endsAt" TIMESTAMP(3),
+ADD COLUMN     "scheduleDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[],
+ADD COLUMN     "scheduleEndHour" INTEGER,
+ADD COLUMN     "scheduleStartHour" INTEGER,
+ADD COLUMN     "startsAt" TIMESTAMP(3);
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "Audience" AS ENUM ('ALL', 'FIRST_TIME', 'GUESTS', 'CUSTOMERS');
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "audience" "Audience" NOT NULL DEFAULT 'ALL',
+ADD COLUMN     "audienceCustomerTags" TEXT[] DEFAULT ARRAY[]::TEXT[];
@@ -0,0 +1,16 @@
+-- AlterEnum
+ALTER TYPE "EventType" ADD VALUE 'DISMISSAL';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "maxImpressionsPerCustomer" INTEGER,
+ADD COLUMN     "maxImpressionsPerSession" INTEGER;
+
+-- AlterTable
+ALTER TABLE "AnalyticsEvent" ADD COLUMN     "customerId" TEXT,
+ADD COLUMN     "viewId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "AnalyticsEvent_sessionId_idx" ON "AnalyticsEvent"("sessionId");
+
+-- CreateIndex
+CREATE INDEX "AnalyticsEvent_customerId_idx" ON "AnalyticsEvent"("customerId");
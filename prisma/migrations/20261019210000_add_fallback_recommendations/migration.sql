@@ -0,0 +1,10 @@
+-- CreateEnum
+CREATE TYPE "RecommendationIntent" AS ENUM ('COMPLEMENTARY', 'RELATED');
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "fallbackEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "fallbackExcludedProductIds" TEXT[] DEFAULT ARRAY[]::TEXT[],
+ADD COLUMN     "fallbackIntent" "RecommendationIntent" NOT NULL DEFAULT 'COMPLEMENTARY';
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "isFallback" BOOLEAN NOT NULL DEFAULT false;
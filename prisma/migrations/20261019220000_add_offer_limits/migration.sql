@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "maxOffers" INTEGER NOT NULL DEFAULT 3;
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "isExclusive" BOOLEAN NOT NULL DEFAULT false;
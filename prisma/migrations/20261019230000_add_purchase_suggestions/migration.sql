@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "SuggestionStatus" AS ENUM ('OPEN', 'ACCEPTED', 'DISMISSED');
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "purchaseSuggestionsEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "purchaseSuggestionsOrderCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "purchaseSuggestionsSyncedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "PurchaseSuggestion" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "pairedProductId" TEXT NOT NULL,
+    "orderCount" INTEGER NOT NULL,
+    "support" DOUBLE PRECISION NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "status" "SuggestionStatus" NOT NULL DEFAULT 'OPEN',
+    "ruleId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "PurchaseSuggestion_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PurchaseSuggestion_shopId_status_idx" ON "PurchaseSuggestion"("shopId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PurchaseSuggestion_shopId_productId_pairedProductId_key" ON "PurchaseSuggestion"("shopId", "productId", "pairedProductId");
+
+-- AddForeignKey
+ALTER TABLE "PurchaseSuggestion" ADD CONSTRAINT "PurchaseSuggestion_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
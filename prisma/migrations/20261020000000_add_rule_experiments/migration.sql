@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "experimentStartedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "RuleUpsell" ADD COLUMN     "trafficWeight" INTEGER NOT NULL DEFAULT 1;
@@ -0,0 +1,6 @@
+-- CreateEnum
+CREATE TYPE "RankMetric" AS ENUM ('CONVERSION_RATE', 'REVENUE_PER_IMPRESSION');
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "autoRankEnabled" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "autoRankMetric" "RankMetric" NOT NULL DEFAULT 'CONVERSION_RATE';
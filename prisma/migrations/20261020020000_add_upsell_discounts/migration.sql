@@ -0,0 +1,9 @@
+-- CreateEnum
+CREATE TYPE "UpsellDiscountType" AS ENUM ('PERCENTAGE', 'FIXED_AMOUNT');
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "upsellDiscountId" TEXT;
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "discountType" "UpsellDiscountType",
+ADD COLUMN     "discountValue" DECIMAL(10,2);
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "AnalyticsEvent" ADD COLUMN     "quantity" INTEGER;
+
+-- CreateTable
+CREATE TABLE "QuantityTier" (
+    "id" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "discountPercent" DECIMAL(5,2) NOT NULL DEFAULT 0,
+
+    CONSTRAINT "QuantityTier_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuantityTier_ruleId_quantity_key" ON "QuantityTier"("ruleId", "quantity");
+
+-- AddForeignKey
+ALTER TABLE "QuantityTier" ADD CONSTRAINT "QuantityTier_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "RuleType" AS ENUM ('UPSELL', 'GIFT');
+
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "type" "RuleType" NOT NULL DEFAULT 'UPSELL';
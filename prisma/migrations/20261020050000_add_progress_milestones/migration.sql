@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "ProgressMilestone" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "threshold" DECIMAL(10,2) NOT NULL,
+    "message" TEXT NOT NULL,
+    "icon" TEXT NOT NULL DEFAULT '',
+
+    CONSTRAINT "ProgressMilestone_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProgressMilestone_shopId_idx" ON "ProgressMilestone"("shopId");
+
+-- AddForeignKey
+ALTER TABLE "ProgressMilestone" ADD CONSTRAINT "ProgressMilestone_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move each shop's free shipping threshold into its first milestone
+INSERT INTO "ProgressMilestone" ("id", "shopId", "threshold", "message", "icon")
+SELECT 'pm_' || "id", "id", "freeShippingThreshold", 'free shipping', '🚚' FROM "Shop"
+WHERE "freeShippingThreshold" > 0;
+
+-- AlterTable
+ALTER TABLE "Shop" DROP COLUMN "freeShippingThreshold";
@@ -0,0 +1,15 @@
+-- CreateTable
+CREATE TABLE "MilestoneCurrencyThreshold" (
+    "id" TEXT NOT NULL,
+    "milestoneId" TEXT NOT NULL,
+    "currencyCode" TEXT NOT NULL,
+    "threshold" DECIMAL(10,2) NOT NULL,
+
+    CONSTRAINT "MilestoneCurrencyThreshold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "MilestoneCurrencyThreshold_milestoneId_currencyCode_key" ON "MilestoneCurrencyThreshold"("milestoneId", "currencyCode");
+
+-- AddForeignKey
+ALTER TABLE "MilestoneCurrencyThreshold" ADD CONSTRAINT "MilestoneCurrencyThreshold_milestoneId_fkey" FOREIGN KEY ("milestoneId") REFERENCES "ProgressMilestone"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "Rule" ADD COLUMN     "rankConversions" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rankImpressions" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "rankRevenue" DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "Shop" ADD COLUMN     "rankStatsRefreshedAt" TIMESTAMP(3);
@@ -0,0 +1,36 @@
+-- CreateTable
+CREATE TABLE "OfferView" (
+    "id" TEXT NOT NULL,
+    "shopId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "viewId" TEXT NOT NULL,
+    "sessionId" TEXT,
+    "customerId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OfferView_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OfferView_ruleId_viewId_key" ON "OfferView"("ruleId", "viewId");
+
+-- CreateIndex
+CREATE INDEX "OfferView_shopId_sessionId_createdAt_idx" ON "OfferView"("shopId", "sessionId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "OfferView_shopId_customerId_createdAt_idx" ON "OfferView"("shopId", "customerId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OfferView" ADD CONSTRAINT "OfferView_shopId_fkey" FOREIGN KEY ("shopId") REFERENCES "Shop"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OfferView" ADD CONSTRAINT "OfferView_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "Rule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Carry over the page views of impressions tracked so far
+INSERT INTO "OfferView" ("id", "shopId", "ruleId", "viewId", "sessionId", "customerId", "createdAt")
+SELECT DISTINCT ON ("ruleId", "viewId")
+    'ov_' || "id", "shopId", "ruleId", "viewId", "sessionId", "customerId", "createdAt"
+FROM "AnalyticsEvent"
+WHERE "eventType" = 'IMPRESSION' AND "viewId" IS NOT NULL
+ORDER BY "ruleId", "viewId", "createdAt";
+
@@ -0,0 +1,46 @@
+import { vi } from "vitest";
+import type { AdminGraphqlClient } from "../app/collections.server";
+
+/**
+ * Local stand-in for the Admin GraphQL API
+ *
+ * Serves the given orders, newest first, through the getRecentOrders query
+ * with cursor pagination. Pages hold at most pageSize orders, whatever the
+ * query asks for, so small fixtures can span several pages.
+ *
+ * @param orders - Product GIDs of each order's line items; null items
+ * stand for line items without a product
+ */
+export function createAdminStandIn(
+  orders: Array<Array<string | null>>,
+  { pageSize = 250 }: { pageSize?: number } = {}
+) {
+  const graphql = vi.fn<AdminGraphqlClient["graphql"]>(async (query, options) => {
+    if (!query.includes("getRecentOrders")) {
+      return Response.json({ errors: [{ message: "Unexpected query" }] });
+    }
+
+    const first = Number(query.match(/first: (\d+)/)?.[1] ?? pageSize);
+    const after = options?.variables?.after;
+    const start = typeof after === "string" ? Number(after) : 0;
+    const end = Math.min(start + Math.min(first, pageSize), orders.length);
+
+    return Response.json({
+      data: {
+        orders: {
+          nodes: orders.slice(start, end).map((productIds) => ({
+            lineItems: {
+              nodes: productIds.map((id) => ({ product: id ? { id } : null })),
+            },
+          })),
+          pageInfo: {
+            hasNextPage: end < orders.length,
+            endCursor: end > start ? String(end) : null,
+          },
+        },
+      },
+    });
+  });
+
+  return { graphql } satisfies AdminGraphqlClient;
+}
@@ -0,0 +1,127 @@
+import type { ActionFunctionArgs } from "react-router";
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAdminStandIn } from "./admin-api";
+
+const prisma = vi.hoisted(() => ({
+  $transaction: vi.fn(async (operations: unknown[]) => operations),
+  purchaseSuggestion: {
+    deleteMany: vi.fn((args: unknown) => ({ deleteMany: args })),
+    upsert: vi.fn((args: unknown) => ({ upsert: args })),
+  },
+  shop: {
+    findMany: vi.fn(),
+    update: vi.fn((args: unknown) => ({ update: args })),
+  },
+}));
+
+const unauthenticated = vi.hoisted(() => ({ admin: vi.fn() }));
+
+vi.mock("../app/db.server", () => ({ prisma, default: prisma }));
+vi.mock("../app/shopify.server", () => ({ unauthenticated }));
+
+const { action } = await import("../app/routes/api.jobs.suggestions");
+
+const A = "gid://shopify/Product/1";
+const B = "gid://shopify/Product/2";
+
+function runJob(init: RequestInit = {}) {
+  const request = new Request("https://app.example.com/api/jobs/suggestions", {
+    method: "POST",
+    headers: { Authorization: "Bearer test-secret" },
+    ...init,
+  });
+  return action({ request, params: {}, context: {} } as ActionFunctionArgs);
+}
+
+beforeEach(() => {
+  vi.clearAllMocks();
+  vi.stubEnv("CRON_SECRET", "test-secret");
+});
+
+describe("POST /api/jobs/suggestions", () => {
+  it("only accepts POST", async () => {
+    const response = await runJob({ method: "GET" });
+
+    expect(response.status).toBe(405);
+    expect(prisma.shop.findMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects requests without the cron secret", async () => {
+    const response = await runJob({ headers: { Authorization: "Bearer wrong" } });
+
+    expect(response.status).toBe(401);
+    expect(prisma.shop.findMany).not.toHaveBeenCalled();
+  });
+
+  it("rejects every request when no cron secret is configured", async () => {
+    vi.stubEnv("CRON_SECRET", "");
+
+    const response = await runJob({ headers: { Authorization: "Bearer " } });
+
+    expect(response.status).toBe(401);
+  });
+
+  it("refreshes shops with read_orders across every page of orders", async () => {
+    const admin = createAdminStandIn([[A, B], [A, B], [A, B], [A]], { pageSize: 3 });
+    prisma.shop.findMany.mockResolvedValue([
+      { id: "shop-1", shopifyDomain: "one.myshopify.com" },
+    ]);
+    unauthenticated.admin.mockResolvedValue({
+      admin,
+      session: { scope: "write_products,read_orders" },
+    });
+
+    const response = await runJob();
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      results: [{ shop: "one.myshopify.com", success: true, orders: 4, suggestions: 2 }],
+    });
+    expect(prisma.shop.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({ where: { isActive: true, purchaseSuggestionsEnabled: true } })
+    );
+    expect(unauthenticated.admin).toHaveBeenCalledWith("one.myshopify.com");
+    expect(admin.graphql).toHaveBeenCalledTimes(2);
+    expect(prisma.purchaseSuggestion.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          shopId_productId_pairedProductId: {
+            shopId: "shop-1",
+            productId: B,
+            pairedProductId: A,
+          },
+        },
+        update: { orderCount: 3, support: 0.75, confidence: 1 },
+      })
+    );
+  });
+
+  it("skips shops without read_orders and keeps going after a failure", async () => {
+    const unscoped = createAdminStandIn([[A, B]]);
+    const failing = { graphql: vi.fn(async () => Response.json({ errors: ["Internal error"] })) };
+    const scoped = createAdminStandIn([[A, B], [A, B], [A, B]]);
+
+    prisma.shop.findMany.mockResolvedValue([
+      { id: "shop-1", shopifyDomain: "unscoped.myshopify.com" },
+      { id: "shop-2", shopifyDomain: "failing.myshopify.com" },
+      { id: "shop-3", shopifyDomain: "scoped.myshopify.com" },
+    ]);
+    unauthenticated.admin
+      .mockResolvedValueOnce({ admin: unscoped, session: { scope: "write_products" } })
+      .mockResolvedValueOnce({ admin: failing, session: { scope: "read_orders" } })
+      .mockResolvedValueOnce({ admin: scoped, session: { scope: "read_orders" } });
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    const response = await runJob();
+
+    expect(await response.json()).toEqual({
+      results: [
+        { shop: "unscoped.myshopify.com", success: false, skipped: "missing read_orders" },
+        { shop: "failing.myshopify.com", success: false },
+        { shop: "scoped.myshopify.com", success: true, orders: 3, suggestions: 2 },
+      ],
+    });
+    expect(unscoped.graphql).not.toHaveBeenCalled();
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { createAdminStandIn } from "./admin-api";
+
+const prisma = vi.hoisted(() => ({
+  $transaction: vi.fn(async (operations: unknown[]) => operations),
+  purchaseSuggestion: {
+    deleteMany: vi.fn((args: unknown) => ({ deleteMany: args })),
+    upsert: vi.fn((args: unknown) => ({ upsert: args })),
+  },
+  shop: {
+    update: vi.fn((args: unknown) => ({ update: args })),
+  },
+}));
+
+vi.mock("../app/db.server", () => ({ prisma, default: prisma }));
+
+const {
+  fetchRecentOrderProducts,
+  hasOrdersScope,
+  refreshPurchaseSuggestions,
+  scoreProductPairs,
+} = await import("../app/suggestions.server");
+
+const A = "gid://shopify/Product/1";
+const B = "gid://shopify/Product/2";
+const C = "gid://shopify/Product/3";
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe("hasOrdersScope", () => {
+  it("finds read_orders among the granted scopes", () => {
+    expect(hasOrdersScope("write_products, read_orders,write_discounts")).toBe(true);
+  });
+
+  it("rejects sessions without read_orders", () => {
+    expect(hasOrdersScope("write_products,read_orders_extra")).toBe(false);
+    expect(hasOrdersScope("")).toBe(false);
+    expect(hasOrdersScope(null)).toBe(false);
+    expect(hasOrdersScope(undefined)).toBe(false);
+  });
+});
+
+describe("scoreProductPairs", () => {
+  it("scores both directions of a pair and drops rare pairs", () => {
+    const scores = scoreProductPairs([[A, B], [A, B], [A, B, C], [C], [A]]);
+
+    expect(scores).toEqual([
+      { productId: B, pairedProductId: A, orderCount: 3, support: 0.6, confidence: 1 },
+      { productId: A, pairedProductId: B, orderCount: 3, support: 0.6, confidence: 0.75 },
+    ]);
+  });
+
+  it("counts a product once per order", () => {
+    const scores = scoreProductPairs([[A, A, B], [A, B], [A, B, B]]);
+
+    expect(scores.map((score) => score.orderCount)).toEqual([3, 3]);
+  });
+});
+
+describe("fetchRecentOrderProducts", () => {
+  it("follows the cursor through every page", async () => {
+    const admin = createAdminStandIn([[A, B], [B], [C, null], [A], [B, C]], { pageSize: 2 });
+
+    const orders = await fetchRecentOrderProducts(admin, new Date("2026-08-20T12:00:00Z"));
+
+    expect(orders).toEqual([[A, B], [B], [C], [A], [B, C]]);
+    expect(admin.graphql).toHaveBeenCalledTimes(3);
+    expect(admin.graphql.mock.calls.map(([, options]) => options?.variables)).toEqual([
+      { after: null, query: "created_at:>=2026-08-20" },
+      { after: "2", query: "created_at:>=2026-08-20" },
+      { after: "4", query: "created_at:>=2026-08-20" },
+    ]);
+  });
+
+  it("stops after a single page when there are no more", async () => {
+    const admin = createAdminStandIn([[A, B]]);
+
+    expect(await fetchRecentOrderProducts(admin, new Date())).toEqual([[A, B]]);
+    expect(admin.graphql).toHaveBeenCalledTimes(1);
+  });
+
+  it("throws when the API denies access to orders", async () => {
+    const admin = {
+      graphql: vi.fn(async () =>
+        Response.json({
+          errors: [
+            {
+              message: "Access denied for orders field. Required access: `read_orders` access scope.",
+              extensions: { code: "ACCESS_DENIED" },
+            },
+          ],
+        })
+      ),
+    };
+
+    await expect(fetchRecentOrderProducts(admin, new Date())).rejects.toThrow(
+      /Failed to fetch orders: .*read_orders/
+    );
+  });
+});
+
+describe("refreshPurchaseSuggestions", () => {
+  it("replaces open suggestions and upserts the scored pairs", async () => {
+    const admin = createAdminStandIn([[A, B], [A, B], [A, B, C], [C], [A]], { pageSize: 2 });
+    const now = new Date("2026-10-19T00:00:00Z");
+
+    const summary = await refreshPurchaseSuggestions(admin, "shop-1", now);
+
+    expect(summary).toEqual({ orders: 5, suggestions: 2 });
+    expect(admin.graphql).toHaveBeenCalledTimes(3);
+    expect(admin.graphql.mock.calls[0][1]?.variables?.query).toBe("created_at:>=2026-08-20");
+
+    expect(prisma.purchaseSuggestion.deleteMany).toHaveBeenCalledWith({
+      where: { shopId: "shop-1", status: "OPEN" },
+    });
+    expect(prisma.purchaseSuggestion.upsert).toHaveBeenCalledTimes(2);
+    expect(prisma.purchaseSuggestion.upsert).toHaveBeenCalledWith({
+      where: {
+        shopId_productId_pairedProductId: {
+          shopId: "shop-1",
+          productId: A,
+          pairedProductId: B,
+        },
+      },
+      create: {
+        shopId: "shop-1",
+        productId: A,
+        pairedProductId: B,
+        orderCount: 3,
+        support: 0.6,
+        confidence: 0.75,
+      },
+      update: { orderCount: 3, support: 0.6, confidence: 0.75 },
+    });
+    expect(prisma.shop.update).toHaveBeenCalledWith({
+      where: { id: "shop-1" },
+      data: { purchaseSuggestionsSyncedAt: now, purchaseSuggestionsOrderCount: 5 },
+    });
+
+    // All writes happen in one transaction, open suggestions cleared first
+    expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+    const [operations] = prisma.$transaction.mock.calls[0];
+    expect(operations).toHaveLength(4);
+    expect(operations[0]).toHaveProperty("deleteMany");
+  });
+
+  it("writes nothing if the orders can't be fetched", async () => {
+    const admin = { graphql: vi.fn(async () => Response.json({ errors: ["Throttled"] })) };
+
+    await expect(refreshPurchaseSuggestions(admin, "shop-1")).rejects.toThrow();
+    expect(prisma.$transaction).not.toHaveBeenCalled();
+  });
+});
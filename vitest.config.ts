@@ -0,0 +1,9 @@
+import { defineConfig } from "vitest/config";
+
+// Tests run against plain modules, without the React Router plugin in vite.config.ts
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts", "extensions/*/tests/**/*.test.js"],
+    environment: "node",
+  },
+});